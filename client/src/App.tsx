@@ -14,9 +14,11 @@ import Settings from "@/pages/settings";
 import Schools from "@/pages/schools";
 import Users from "@/pages/users";
 import { useAuth } from "@/hooks/useAuth";
+import { useActiveModules } from "@/lib/moduleRegistry";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  const activeModules = useActiveModules(isAuthenticated);
 
   return (
     <Switch>
@@ -29,6 +31,11 @@ function Router() {
           <Route path="/schools" component={Schools} />
           <Route path="/users" component={Users} />
           <Route path="/settings" component={Settings} />
+          {activeModules.flatMap((module) =>
+            module.pages.map((page) => (
+              <Route key={page.path} path={page.path} component={page.component} />
+            ))
+          )}
         </>
       )}
       <Route component={NotFound} />
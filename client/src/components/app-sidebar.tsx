@@ -1,4 +1,4 @@
-import { Brain, Home, Settings, LogOut, Building2, Users } from "lucide-react";
+import { Brain, Home, Settings, LogOut, Building2, Users, LayoutGrid } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -14,11 +14,13 @@ import {
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
+import { useActiveModules } from "@/lib/moduleRegistry";
 
 export function AppSidebar() {
   const [location] = useLocation();
   const { user, isSuperAdmin } = useAuth();
   const isSchoolAdmin = user?.role === "school_admin" || user?.role === "super_admin";
+  const activeModules = useActiveModules();
 
   const mainItems = [
     {
@@ -90,6 +92,26 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+
+        {activeModules.map((module) => (
+          <SidebarGroup key={module.name}>
+            <SidebarGroupLabel>{module.title}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {module.pages.map((page) => (
+                  <SidebarMenuItem key={page.path}>
+                    <SidebarMenuButton asChild isActive={location === page.path} data-testid={`link-${page.path.slice(1).replace(/\//g, '-')}`}>
+                      <Link href={page.path}>
+                        <LayoutGrid className="w-4 h-4" />
+                        <span>{page.title}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ))}
       </SidebarContent>
 
       <SidebarFooter>
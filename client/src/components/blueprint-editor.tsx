@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  fieldTypes,
+  moduleBlueprintSchema,
+  scalarOnlyFieldTypes,
+  type EntityDefinition,
+  type FieldDefinition,
+  type FieldType,
+  type ModuleBlueprint,
+  type RouteDefinition,
+} from "@shared/blueprint";
+
+const ROUTE_METHODS: RouteDefinition["method"][] = ["GET", "POST", "PATCH", "DELETE"];
+
+interface BlueprintEditorProps {
+  blueprint: ModuleBlueprint;
+  onSave: (blueprint: ModuleBlueprint) => void;
+  onCancel: () => void;
+  isSaving: boolean;
+  // Errors reported by the server for the last save
+  serverErrors?: string[];
+}
+
+// Options that only apply to some field types are dropped when the type changes
+function changeType(field: FieldDefinition, type: FieldType): Partial<FieldDefinition> {
+  return {
+    type,
+    length: type === "varchar" ? field.length : undefined,
+    precision: type === "numeric" ? field.precision : undefined,
+    scale: type === "numeric" ? field.scale : undefined,
+    enumValues: type === "enum" ? field.enumValues ?? ["option"] : undefined,
+    array: scalarOnlyFieldTypes.includes(type) ? undefined : field.array,
+  };
+}
+
+function parseNumber(value: string): number | undefined {
+  return value ? parseInt(value) : undefined;
+}
+
+// Length for varchar, precision and scale for numeric, values for enum
+function FieldOptions({ field, onChange }: { field: FieldDefinition; onChange: (changes: Partial<FieldDefinition>) => void }) {
+  if (field.type === "numeric") {
+    return (
+      <div className="flex gap-1">
+        <Input
+          type="number"
+          min={1}
+          placeholder="Precision"
+          value={field.precision ?? ""}
+          onChange={(e) => onChange({ precision: parseNumber(e.target.value) })}
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Scale"
+          value={field.scale ?? ""}
+          onChange={(e) => onChange({ scale: parseNumber(e.target.value) })}
+        />
+      </div>
+    );
+  }
+
+  if (field.type === "enum") {
+    return (
+      <Input
+        placeholder="Comma-separated values"
+        value={field.enumValues?.join(",") ?? ""}
+        onChange={(e) => onChange({ enumValues: e.target.value.split(",").map((value) => value.trim()) })}
+      />
+    );
+  }
+
+  return (
+    <Input
+      type="number"
+      min={1}
+      placeholder="Length"
+      value={field.length ?? ""}
+      disabled={field.type !== "varchar"}
+      onChange={(e) => onChange({ length: parseNumber(e.target.value) })}
+    />
+  );
+}
+
+export function BlueprintEditor({ blueprint, onSave, onCancel, isSaving, serverErrors = [] }: BlueprintEditorProps) {
+  const [draft, setDraft] = useState<ModuleBlueprint>(blueprint);
+
+  useEffect(() => {
+    setDraft(blueprint);
+  }, [blueprint]);
+
+  // Shape errors are caught here; the server also checks names against existing tables and relationships
+  const parsed = moduleBlueprintSchema.safeParse(draft);
+  const errors = parsed.success
+    ? serverErrors
+    : parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+
+  const updateEntity = (index: number, changes: Partial<EntityDefinition>) => {
+    setDraft({
+      ...draft,
+      entities: draft.entities.map((entity, i) => (i === index ? { ...entity, ...changes } : entity)),
+    });
+  };
+
+  const updateField = (entityIndex: number, fieldIndex: number, changes: Partial<FieldDefinition>) => {
+    const fields = draft.entities[entityIndex].fields.map((field, i) =>
+      i === fieldIndex ? { ...field, ...changes } : field
+    );
+    updateEntity(entityIndex, { fields });
+  };
+
+  const updateRoute = (index: number, changes: Partial<RouteDefinition>) => {
+    setDraft({
+      ...draft,
+      apiRoutes: draft.apiRoutes.map((route, i) => (i === index ? { ...route, ...changes } : route)),
+    });
+  };
+
+  // Relationships, routes and pages of a removed entity would no longer validate
+  const removeEntity = (index: number) => {
+    const { name, tableName } = draft.entities[index];
+    setDraft({
+      ...draft,
+      entities: draft.entities.filter((_, i) => i !== index),
+      relationships: draft.relationships.filter((r) => r.from !== tableName && r.to !== tableName),
+      apiRoutes: draft.apiRoutes.filter((r) => r.entity !== name),
+      uiComponents: draft.uiComponents.filter((c) => c.entity !== name),
+    });
+  };
+
+  const addEntity = () => {
+    setDraft({
+      ...draft,
+      entities: [
+        ...draft.entities,
+        {
+          name: "NewEntity",
+          tableName: "new_entities",
+          fields: [
+            { name: "id", type: "serial", required: true },
+            { name: "name", type: "varchar", required: true, length: 255 },
+          ],
+        },
+      ],
+    });
+  };
+
+  const addField = (entityIndex: number) => {
+    const fields = draft.entities[entityIndex].fields;
+    updateEntity(entityIndex, { fields: [...fields, { name: "newField", type: "text", required: false }] });
+  };
+
+  const removeField = (entityIndex: number, fieldIndex: number) => {
+    const fields = draft.entities[entityIndex].fields.filter((_, i) => i !== fieldIndex);
+    updateEntity(entityIndex, { fields });
+  };
+
+  const addRoute = () => {
+    setDraft({
+      ...draft,
+      apiRoutes: [
+        ...draft.apiRoutes,
+        { method: "GET", path: "/api/", description: "", requiresAuth: true, requiresSuperAdmin: false },
+      ],
+    });
+  };
+
+  return (
+    <div className="space-y-6" data-testid="blueprint-editor">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Entities</h3>
+          <Button size="sm" variant="outline" onClick={addEntity} data-testid="button-add-entity">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Entity
+          </Button>
+        </div>
+
+        {draft.entities.map((entity, entityIndex) => (
+          <div key={entityIndex} className="border rounded-lg p-3 space-y-3" data-testid={`editor-entity-${entityIndex}`}>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label>Name</Label>
+                <Input
+                  value={entity.name}
+                  onChange={(e) => updateEntity(entityIndex, { name: e.target.value })}
+                  data-testid={`input-entity-name-${entityIndex}`}
+                />
+              </div>
+              <div className="flex-1">
+                <Label>Table</Label>
+                <Input
+                  value={entity.tableName}
+                  onChange={(e) => updateEntity(entityIndex, { tableName: e.target.value })}
+                  data-testid={`input-entity-table-${entityIndex}`}
+                />
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => removeEntity(entityIndex)}
+                disabled={draft.entities.length === 1}
+                data-testid={`button-remove-entity-${entityIndex}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+                <span className="col-span-2">Field</span>
+                <span className="col-span-2">Type</span>
+                <span className="col-span-1">Required</span>
+                <span className="col-span-1">Unique</span>
+                <span className="col-span-1">Array</span>
+                <span className="col-span-2">Options</span>
+                <span className="col-span-2">Default</span>
+              </div>
+              {entity.fields.map((field, fieldIndex) => (
+                <div key={fieldIndex} className="grid grid-cols-12 gap-2 items-center" data-testid={`editor-field-${entityIndex}-${fieldIndex}`}>
+                  <Input
+                    className="col-span-2"
+                    value={field.name}
+                    onChange={(e) => updateField(entityIndex, fieldIndex, { name: e.target.value })}
+                  />
+                  <div className="col-span-2">
+                    <Select
+                      value={field.type}
+                      onValueChange={(value) => updateField(entityIndex, fieldIndex, changeType(field, value as FieldType))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fieldTypes.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Checkbox
+                    className="col-span-1"
+                    checked={field.required}
+                    onCheckedChange={(checked) => updateField(entityIndex, fieldIndex, { required: checked === true })}
+                  />
+                  <Checkbox
+                    className="col-span-1"
+                    checked={field.unique ?? false}
+                    onCheckedChange={(checked) => updateField(entityIndex, fieldIndex, { unique: checked === true || undefined })}
+                  />
+                  <Checkbox
+                    className="col-span-1"
+                    checked={field.array ?? false}
+                    disabled={scalarOnlyFieldTypes.includes(field.type)}
+                    onCheckedChange={(checked) => updateField(entityIndex, fieldIndex, { array: checked === true || undefined })}
+                  />
+                  <div className="col-span-2">
+                    <FieldOptions field={field} onChange={(changes) => updateField(entityIndex, fieldIndex, changes)} />
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    value={field.default ?? ""}
+                    onChange={(e) => updateField(entityIndex, fieldIndex, { default: e.target.value || undefined })}
+                  />
+                  <Button
+                    className="col-span-1"
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeField(entityIndex, fieldIndex)}
+                    disabled={entity.fields.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => addField(entityIndex)} data-testid={`button-add-field-${entityIndex}`}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Field
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">API Routes</h3>
+          <Button size="sm" variant="outline" onClick={addRoute} data-testid="button-add-route">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Route
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Every entity also gets list, get, create, update and delete routes; only routes that need a specific path or flag are listed.
+        </p>
+        <div className="grid grid-cols-12 gap-2 text-xs text-muted-foreground">
+          <span className="col-span-2">Method</span>
+          <span className="col-span-4">Path</span>
+          <span className="col-span-3">Description</span>
+          <span className="col-span-1">Auth</span>
+          <span className="col-span-1">Super Admin</span>
+        </div>
+        {draft.apiRoutes.map((route, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-center" data-testid={`editor-route-${index}`}>
+            <div className="col-span-2">
+              <Select value={route.method} onValueChange={(value) => updateRoute(index, { method: value as RouteDefinition["method"] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROUTE_METHODS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input className="col-span-4" value={route.path} onChange={(e) => updateRoute(index, { path: e.target.value })} />
+            <Input
+              className="col-span-3"
+              value={route.description}
+              onChange={(e) => updateRoute(index, { description: e.target.value })}
+            />
+            <Checkbox
+              className="col-span-1"
+              checked={route.requiresAuth}
+              onCheckedChange={(checked) => updateRoute(index, { requiresAuth: checked === true })}
+            />
+            <Checkbox
+              className="col-span-1"
+              checked={route.requiresSuperAdmin ?? false}
+              onCheckedChange={(checked) => updateRoute(index, { requiresSuperAdmin: checked === true })}
+              data-testid={`checkbox-route-super-admin-${index}`}
+            />
+            <Button
+              className="col-span-1"
+              size="icon"
+              variant="ghost"
+              onClick={() => setDraft({ ...draft, apiRoutes: draft.apiRoutes.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="bg-destructive/10 text-destructive p-3 rounded text-xs space-y-1" data-testid="list-blueprint-errors">
+          {errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={onCancel} className="flex-1" data-testid="button-cancel-blueprint">
+          Cancel
+        </Button>
+        <Button
+          onClick={() => parsed.success && onSave(parsed.data)}
+          disabled={!parsed.success || isSaving}
+          className="flex-1"
+          data-testid="button-save-blueprint"
+        >
+          {isSaving ? "Saving..." : "Regenerate from Blueprint"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { Fragment, type ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+export type DiffViewMode = "inline" | "split";
+
+interface DiffRow {
+  type: "context" | "add" | "remove" | "hunk";
+  text: string;
+  oldLine?: number;
+  newLine?: number;
+}
+
+interface SplitRow {
+  left?: DiffRow;
+  right?: DiffRow;
+  hunk?: string;
+}
+
+const KEYWORDS = new Set([
+  "import", "export", "from", "const", "let", "function", "return", "async", "await", "if", "else",
+  "new", "class", "interface", "type", "extends", "default", "try", "catch", "throw", "for", "of",
+  "true", "false", "null", "undefined",
+  "CREATE", "TABLE", "ALTER", "ADD", "COLUMN", "INDEX", "ON", "REFERENCES", "PRIMARY", "KEY",
+  "NOT", "NULL", "DEFAULT", "IF", "EXISTS", "DELETE", "CASCADE", "SET", "UNIQUE",
+]);
+
+const TOKEN_PATTERN = /(\/\/.*$|--.*$|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`|\b\d+(?:\.\d+)?\b|\b[A-Za-z_$][\w$]*\b)/g;
+
+// Parse the output of the server's createUnifiedDiff, skipping the ---/+++ file headers
+function parseUnifiedDiff(diff: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("--- ") || line.startsWith("+++ ")) continue;
+
+    const hunk = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      oldLine = parseInt(hunk[1]);
+      newLine = parseInt(hunk[2]);
+      rows.push({ type: "hunk", text: line });
+    } else if (line.startsWith("+")) {
+      rows.push({ type: "add", text: line.slice(1), newLine: newLine++ });
+    } else if (line.startsWith("-")) {
+      rows.push({ type: "remove", text: line.slice(1), oldLine: oldLine++ });
+    } else if (line.startsWith(" ")) {
+      rows.push({ type: "context", text: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+
+  return rows;
+}
+
+// Pair each run of removed lines with the added lines that follow it
+function toSplitRows(rows: DiffRow[]): SplitRow[] {
+  const result: SplitRow[] = [];
+  let index = 0;
+
+  while (index < rows.length) {
+    const row = rows[index];
+    if (row.type === "hunk") {
+      result.push({ hunk: row.text });
+      index++;
+    } else if (row.type === "context") {
+      result.push({ left: row, right: row });
+      index++;
+    } else {
+      const removed: DiffRow[] = [];
+      const added: DiffRow[] = [];
+      while (index < rows.length && rows[index].type === "remove") removed.push(rows[index++]);
+      while (index < rows.length && rows[index].type === "add") added.push(rows[index++]);
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+        result.push({ left: removed[i], right: added[i] });
+      }
+    }
+  }
+
+  return result;
+}
+
+function highlight(text: string): ReactNode[] {
+  return text.split(TOKEN_PATTERN).map((token, i) => {
+    if (i % 2 === 0) return token;
+    if (token.startsWith("//") || token.startsWith("--")) {
+      return <span key={i} className="text-muted-foreground italic">{token}</span>;
+    }
+    if (/^["'`]/.test(token)) {
+      return <span key={i} className="text-green-700 dark:text-green-400">{token}</span>;
+    }
+    if (/^\d/.test(token)) {
+      return <span key={i} className="text-orange-600 dark:text-orange-400">{token}</span>;
+    }
+    if (KEYWORDS.has(token)) {
+      return <span key={i} className="text-purple-700 dark:text-purple-400 font-semibold">{token}</span>;
+    }
+    return token;
+  });
+}
+
+function rowClass(row?: DiffRow) {
+  if (row?.type === "add") return "bg-green-500/10";
+  if (row?.type === "remove") return "bg-red-500/10";
+  return "";
+}
+
+function marker(row: DiffRow) {
+  return row.type === "add" ? "+" : row.type === "remove" ? "-" : " ";
+}
+
+const gutterClass = "select-none pr-2 text-right text-muted-foreground w-10 align-top";
+
+export function DiffViewer({ diff, mode, className }: { diff: string; mode: DiffViewMode; className?: string }) {
+  const rows = parseUnifiedDiff(diff);
+
+  return (
+    <div className={cn("bg-background rounded text-xs font-mono overflow-auto max-h-96", className)}>
+      <table className="w-full border-collapse">
+        <tbody>
+          {mode === "inline"
+            ? rows.map((row, i) =>
+                row.type === "hunk" ? (
+                  <tr key={i} className="bg-muted text-muted-foreground">
+                    <td colSpan={3} className="px-2">{row.text}</td>
+                  </tr>
+                ) : (
+                  <tr key={i} className={rowClass(row)}>
+                    <td className={gutterClass}>{row.oldLine}</td>
+                    <td className={gutterClass}>{row.newLine}</td>
+                    <td className="whitespace-pre pr-2">
+                      {marker(row)} {highlight(row.text)}
+                    </td>
+                  </tr>
+                )
+              )
+            : toSplitRows(rows).map((row, i) =>
+                row.hunk !== undefined ? (
+                  <tr key={i} className="bg-muted text-muted-foreground">
+                    <td colSpan={4} className="px-2">{row.hunk}</td>
+                  </tr>
+                ) : (
+                  <tr key={i}>
+                    {[row.left, row.right].map((side, column) => (
+                      <Fragment key={column}>
+                        <td className={cn(gutterClass, rowClass(side))}>
+                          {column === 0 ? side?.oldLine : side?.newLine}
+                        </td>
+                        <td className={cn("whitespace-pre pr-2 w-1/2 align-top", rowClass(side), column === 0 && "border-r")}>
+                          {side && highlight(side.text)}
+                        </td>
+                      </Fragment>
+                    ))}
+                  </tr>
+                )
+              )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
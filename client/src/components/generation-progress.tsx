@@ -0,0 +1,53 @@
+import { CheckCircle, Circle, Loader2, XCircle } from "lucide-react";
+import { generationSteps, type GenerationJobEvent, type GenerationStep } from "@shared/schema";
+
+const STEP_LABELS: Record<GenerationStep, string> = {
+  blueprint: "Blueprint",
+  schema: "Database schema",
+  migration: "Migration SQL",
+  storage: "Storage layer",
+  routes: "API routes",
+  frontend: "Frontend pages",
+  tests: "API tests",
+  diff: "Diff preview",
+  typecheck: "Typecheck",
+};
+
+export function GenerationProgress({ events }: { events: GenerationJobEvent[] }) {
+  // Retries restart the steps, so only the events after the last job-level event count
+  const lastJobEvent = events.reduce((index, event, i) => (event.step === null ? i : index), -1);
+  const current = events.slice(lastJobEvent + 1);
+  const notices = events.filter((event) => event.step === null);
+
+  const stepStatus = (step: GenerationStep) => current.filter((event) => event.step === step).pop();
+
+  return (
+    <div className="space-y-2" data-testid="generation-progress">
+      <ul className="space-y-1 text-sm">
+        {generationSteps.map((step) => {
+          const event = stepStatus(step);
+          return (
+            <li key={step} className="flex items-center gap-2" data-testid={`progress-step-${step}`}>
+              {event?.status === "completed" ? (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              ) : event?.status === "failed" ? (
+                <XCircle className="h-4 w-4 text-destructive" />
+              ) : event?.status === "started" ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Circle className="h-4 w-4 text-muted-foreground" />
+              )}
+              <span className={event ? "" : "text-muted-foreground"}>{STEP_LABELS[step]}</span>
+              {event?.message && <span className="text-xs text-muted-foreground truncate">{event.message}</span>}
+            </li>
+          );
+        })}
+      </ul>
+      {notices.map((event) => (
+        <p key={event.id} className="text-xs text-muted-foreground">
+          {event.status}: {event.message}
+        </p>
+      ))}
+    </div>
+  );
+}
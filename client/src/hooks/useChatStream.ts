@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Sends chat messages and follows the assistant's reply as it streams in
+export function useChatStream(conversationId: number | null) {
+  // The message being answered, shown until the saved messages are refetched
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const [isCancelling, setIsCancelling] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the conversation drops the connection, which also stops the reply
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, [conversationId]);
+
+  const send = useCallback(
+    async (content: string) => {
+      if (!conversationId) return;
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setPendingMessage(content);
+      setReply("");
+
+      try {
+        const res = await apiRequest(
+          "POST",
+          `/api/conversations/${conversationId}/messages/stream`,
+          { content },
+          controller.signal,
+        );
+        const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+        let buffer = "";
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          buffer += value;
+          const events = buffer.split("\n\n");
+          buffer = events.pop() ?? "";
+          for (const event of events) {
+            const type = event.match(/^event: (.*)$/m)?.[1];
+            const data = event.match(/^data: (.*)$/m)?.[1];
+            if (type === "token" && data) {
+              const { text } = JSON.parse(data) as { text: string };
+              setReply((previous) => previous + text);
+            } else if (type === "error" && data) {
+              throw new Error(JSON.parse(data).message);
+            }
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) throw error;
+      } finally {
+        await queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId, "messages"] });
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setPendingMessage(null);
+          setReply("");
+          setIsCancelling(false);
+        }
+      }
+    },
+    [conversationId],
+  );
+
+  // The server stops generating and saves the partial reply, then ends the stream.
+  // Dropping the connection as well stops it even when the cancel request reaches
+  // an instance that isn't running the stream.
+  const cancel = useCallback(async () => {
+    const controller = controllerRef.current;
+    if (!conversationId || !controller) return;
+    setIsCancelling(true);
+    await apiRequest("POST", `/api/conversations/${conversationId}/messages/stream/cancel`).catch(() => {
+      // The reply finished before the cancel arrived, or another instance is streaming it
+    });
+    controller.abort();
+  }, [conversationId]);
+
+  return { send, cancel, pendingMessage, reply, isStreaming: pendingMessage !== null, isCancelling };
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { GenerationJobEvent } from "@shared/schema";
+
+// Follows a generation job's progress events while it is queued or generating
+export function useJobProgress(jobId: number | null, active: boolean) {
+  const [events, setEvents] = useState<GenerationJobEvent[]>([]);
+
+  useEffect(() => {
+    setEvents([]);
+  }, [jobId]);
+
+  useEffect(() => {
+    if (!jobId || !active) return;
+
+    const source = new EventSource(`/api/generation/jobs/${jobId}/events`);
+
+    source.addEventListener("progress", (message) => {
+      const event: GenerationJobEvent = JSON.parse((message as MessageEvent).data);
+      setEvents((previous) => (previous.some((e) => e.id === event.id) ? previous : [...previous, event]));
+    });
+
+    source.addEventListener("done", () => {
+      source.close();
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs", jobId] });
+    });
+
+    return () => source.close();
+  }, [jobId, active]);
+
+  return events;
+}
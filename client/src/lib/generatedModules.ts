@@ -0,0 +1,14 @@
+import type { ComponentType } from "react";
+
+// Shape of the manifests the code generator writes to client/src/modules
+export interface GeneratedModulePage {
+  title: string;
+  path: string;
+  component: ComponentType<any>;
+}
+
+export interface GeneratedModule {
+  name: string;
+  title: string;
+  pages: GeneratedModulePage[];
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Module } from "@shared/schema";
+import type { GeneratedModule } from "./generatedModules";
+
+// Every manifest deployed to client/src/modules, picked up when the client is rebuilt
+const manifests = Object.values(
+  import.meta.glob<{ default: GeneratedModule }>("../modules/*.ts", { eager: true })
+).map((manifest) => manifest.default);
+
+/**
+ * Generated modules that are active for the current school, according to /api/modules
+ */
+export function useActiveModules(enabled = true): GeneratedModule[] {
+  const { data: modules } = useQuery<Module[]>({
+    queryKey: ["/api/modules"],
+    enabled,
+  });
+
+  const active = new Set(
+    (modules ?? []).filter((module) => module.status === "active").map((module) => module.name)
+  );
+  return manifests.filter((manifest) => active.has(manifest.name));
+}
@@ -5,10 +5,10 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Brain, Layers, Plus, Loader2 } from "lucide-react";
+import { Brain, Layers, Plus, Loader2, Trash2 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Module } from "@shared/schema";
+import type { Module, ModuleTableAction } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Dialog,
@@ -39,6 +39,9 @@ export default function Modules() {
     description: "",
     status: "active",
   });
+  const [uninstallTarget, setUninstallTarget] = useState<Module | null>(null);
+  const [tableAction, setTableAction] = useState<ModuleTableAction>("archive");
+  const [confirmName, setConfirmName] = useState("");
 
   const { data: modules, isLoading } = useQuery<Module[]>({
     queryKey: ["/api/modules"],
@@ -77,6 +80,43 @@ export default function Modules() {
     },
   });
 
+  const uninstallModuleMutation = useMutation({
+    mutationFn: async ({ module, tables }: { module: Module; tables: ModuleTableAction }) => {
+      return await apiRequest("POST", `/api/modules/${module.id}/uninstall`, {
+        tables,
+        confirm: confirmName,
+      });
+    },
+    onSuccess: (_data, { module, tables }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/modules"] });
+      closeUninstall();
+      toast({
+        title: "Module Uninstalled",
+        description: tables === "drop"
+          ? `${module.name} and its tables were removed. Restart the application to see changes.`
+          : `${module.name} was removed and its tables archived. Restart the application to see changes.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Uninstall Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openUninstall = (module: Module) => {
+    setUninstallTarget(module);
+    setTableAction("archive");
+    setConfirmName("");
+  };
+
+  const closeUninstall = () => {
+    setUninstallTarget(null);
+    setConfirmName("");
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name.trim()) {
@@ -245,6 +285,18 @@ export default function Modules() {
                   <p>Created: {new Date(module.createdAt).toLocaleDateString()}</p>
                   <p>Updated: {new Date(module.updatedAt).toLocaleDateString()}</p>
                 </div>
+                {isSuperAdmin && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-4 text-destructive"
+                    onClick={() => openUninstall(module)}
+                    data-testid={`button-uninstall-module-${module.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Uninstall
+                  </Button>
+                )}
               </CardContent>
             </Card>
           ))
@@ -268,6 +320,64 @@ export default function Modules() {
           </Card>
         )}
       </div>
+
+      <Dialog open={uninstallTarget !== null} onOpenChange={(open) => !open && closeUninstall()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Uninstall {uninstallTarget?.name}</DialogTitle>
+            <DialogDescription>
+              Removes the module's generated code, routes and pages from the application.
+              Choose what happens to its database tables.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="uninstall-tables">Tables</Label>
+              <Select value={tableAction} onValueChange={(value) => setTableAction(value as ModuleTableAction)}>
+                <SelectTrigger id="uninstall-tables" data-testid="select-uninstall-tables">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="archive">Archive (rename and keep the data)</SelectItem>
+                  <SelectItem value="drop">Drop (permanently delete the data)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="uninstall-confirm">
+                Type <span className="font-mono font-semibold">{uninstallTarget?.name}</span> to confirm
+              </Label>
+              <Input
+                id="uninstall-confirm"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                autoComplete="off"
+                data-testid="input-uninstall-confirm"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={closeUninstall}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!uninstallTarget || confirmName !== uninstallTarget.name || uninstallModuleMutation.isPending}
+              onClick={() => uninstallTarget && uninstallModuleMutation.mutate({ module: uninstallTarget, tables: tableAction })}
+              data-testid="button-confirm-uninstall"
+            >
+              {uninstallModuleMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Uninstalling...
+                </>
+              ) : (
+                "Uninstall Module"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -5,10 +5,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { Brain, Send, Plus, MessageSquare, Code, Loader2, Sparkles, CheckCircle, XCircle, Clock, Rocket, FileCode } from "lucide-react";
+import { Brain, Send, Plus, MessageSquare, Code, Loader2, Sparkles, CheckCircle, XCircle, Clock, Rocket, FileCode, Undo2, Pencil, Download, Square, Trash2 } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Conversation, Message, ModuleGenerationJob, GenerationArtifact } from "@shared/schema";
+import type { Conversation, Message, ModuleGenerationJob, GenerationArtifact, DeploymentHistory, ArtifactReviewStatus } from "@shared/schema";
+import type { ModuleBlueprint } from "@shared/blueprint";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -16,6 +17,23 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DiffViewer, type DiffViewMode } from "@/components/diff-viewer";
+import { GenerationProgress } from "@/components/generation-progress";
+import { BlueprintEditor } from "@/components/blueprint-editor";
+import { useJobProgress } from "@/hooks/useJobProgress";
+import { useChatStream } from "@/hooks/useChatStream";
+
+// Compiler error stored on an artifact by the server's validation stage
+type ArtifactDiagnostic = { file: string; line: number; column: number; code: number; message: string };
+
+type JobRevision = Pick<ModuleGenerationJob, "id" | "revision" | "status" | "refinement" | "createdAt">;
+
+// Job statuses whose blueprint can be edited into a new revision (matches the server)
+const EDITABLE_JOB_STATUSES = ["review", "validation_failed", "failed"];
+
+// Job statuses that can be downloaded as a module bundle (matches the server)
+const EXPORTABLE_JOB_STATUSES = ["review", "approved", "deployed", "rolled_back", "uninstalled"];
 
 export default function VipuDev() {
   const { toast } = useToast();
@@ -25,6 +43,10 @@ export default function VipuDev() {
   const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
   const [moduleRequest, setModuleRequest] = useState("");
   const [showJobDetails, setShowJobDetails] = useState(false);
+  const [diffMode, setDiffMode] = useState<DiffViewMode>("inline");
+  const [refineInstruction, setRefineInstruction] = useState("");
+  const [editingBlueprint, setEditingBlueprint] = useState(false);
+  const [blueprintErrors, setBlueprintErrors] = useState<string[]>([]);
 
   useEffect(() => {
     if (!authLoading && !isSuperAdmin) {
@@ -54,11 +76,25 @@ export default function VipuDev() {
     refetchInterval: 5000, // Refresh every 5 seconds to see job status updates
   });
 
-  const { data: jobDetails } = useQuery<ModuleGenerationJob & { artifacts: GenerationArtifact[] }>({
+  const { data: jobDetails } = useQuery<ModuleGenerationJob & {
+    artifacts: GenerationArtifact[];
+    deployments: DeploymentHistory[];
+    revisions: JobRevision[];
+    blueprintDiff: string | null;
+  }>({
     queryKey: ["/api/generation/jobs", selectedJobId],
     enabled: !!selectedJobId,
   });
 
+  useEffect(() => {
+    setEditingBlueprint(false);
+    setBlueprintErrors([]);
+  }, [selectedJobId]);
+
+  const jobInProgress = jobDetails?.status === "pending" || jobDetails?.status === "generating";
+  const jobEvents = useJobProgress(selectedJobId, jobInProgress);
+  const chatStream = useChatStream(selectedConversationId);
+
   // Chat Mutations
   const createConversationMutation = useMutation({
     mutationFn: async () => {
@@ -88,32 +124,6 @@ export default function VipuDev() {
     },
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      const res = await apiRequest("POST", `/api/conversations/${selectedConversationId}/messages`, {
-        content,
-      });
-      return await res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({
-        queryKey: ["/api/conversations", selectedConversationId, "messages"],
-      });
-      setMessageInput("");
-    },
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        window.location.href = "/api/login";
-        return;
-      }
-      toast({
-        title: "Error",
-        description: "Failed to send message. Make sure an AI provider is configured.",
-        variant: "destructive",
-      });
-    },
-  });
-
   // Module Generation Mutations
   const generateModuleMutation = useMutation({
     mutationFn: async (requestDescription: string) => {
@@ -127,10 +137,11 @@ export default function VipuDev() {
       queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
       setModuleRequest("");
       toast({
-        title: "Generation Started",
-        description: "VipuDev.AI is generating your module. This may take a moment...",
+        title: "Generation Queued",
+        description: "VipuDev.AI is generating your module. Progress is shown in the job details.",
       });
       setSelectedJobId(data.jobId);
+      setShowJobDetails(true);
     },
     onError: (error: Error) => {
       toast({
@@ -156,6 +167,81 @@ export default function VipuDev() {
     },
   });
 
+  const refineJobMutation = useMutation({
+    mutationFn: async ({ jobId, instruction }: { jobId: number; instruction: string }) => {
+      const res = await apiRequest("POST", `/api/generation/jobs/${jobId}/refine`, { instruction });
+      return await res.json();
+    },
+    onSuccess: (data: { jobId: number; revision: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
+      setRefineInstruction("");
+      setSelectedJobId(data.jobId);
+      toast({
+        title: "Refinement Queued",
+        description: `Generating revision v${data.revision}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Refinement Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveBlueprintMutation = useMutation({
+    mutationFn: async ({ jobId, blueprint }: { jobId: number; blueprint: ModuleBlueprint }) => {
+      // Not apiRequest: a 422 carries the list of validation errors to show in the editor
+      const res = await fetch(`/api/generation/jobs/${jobId}/blueprint`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ blueprint }),
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setBlueprintErrors(data.errors ?? []);
+        throw new Error(data.message);
+      }
+      return data;
+    },
+    onSuccess: (data: { jobId: number; revision: number }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
+      setEditingBlueprint(false);
+      setBlueprintErrors([]);
+      setSelectedJobId(data.jobId);
+      toast({
+        title: "Regeneration Queued",
+        description: `Generating revision v${data.revision} from the edited blueprint.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Blueprint Not Saved",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewArtifactMutation = useMutation({
+    mutationFn: async ({ artifactId, status }: { artifactId: number; status: ArtifactReviewStatus }) => {
+      const res = await apiRequest("PATCH", `/api/generation/artifacts/${artifactId}/review`, { status });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs", selectedJobId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const deployJobMutation = useMutation({
     mutationFn: async (jobId: number) => {
       const res = await apiRequest("POST", `/api/generation/jobs/${jobId}/deploy`, {});
@@ -164,6 +250,7 @@ export default function VipuDev() {
     onSuccess: (data: { message: string; filesModified: string[] }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
       queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs", selectedJobId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/modules"] });
       toast({
         title: "Deployment Successful!",
         description: data.message,
@@ -178,9 +265,74 @@ export default function VipuDev() {
     },
   });
 
+  const rollbackDeploymentMutation = useMutation({
+    mutationFn: async (deploymentId: number) => {
+      const res = await apiRequest("POST", `/api/deployments/${deploymentId}/rollback`, {});
+      return await res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs", selectedJobId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/modules"] });
+      toast({
+        title: "Rollback Successful",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importBundleMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a module bundle`);
+      }
+      const res = await apiRequest("POST", "/api/generation/bundles", bundle);
+      return await res.json();
+    },
+    onSuccess: (data: { jobId: number; message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/generation/jobs"] });
+      toast({
+        title: "Import Queued",
+        description: "The bundle's files are being checked. Review them in the job details.",
+      });
+      setSelectedJobId(data.jobId);
+      setShowJobDetails(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSendMessage = () => {
-    if (!messageInput.trim() || !selectedConversationId) return;
-    sendMessageMutation.mutate(messageInput);
+    if (!messageInput.trim() || !selectedConversationId || chatStream.isStreaming) return;
+    const content = messageInput;
+    setMessageInput("");
+    chatStream.send(content).catch((error: Error) => {
+      if (isUnauthorizedError(error)) {
+        window.location.href = "/api/login";
+        return;
+      }
+      setMessageInput(content);
+      toast({
+        title: "Error",
+        description: "Failed to send message. Make sure an AI provider is configured.",
+        variant: "destructive",
+      });
+    });
   };
 
   const handleGenerateModule = () => {
@@ -199,7 +351,12 @@ export default function VipuDev() {
         return <CheckCircle className="h-4 w-4" />;
       case "deployed":
         return <Rocket className="h-4 w-4" />;
+      case "rolled_back":
+        return <Undo2 className="h-4 w-4" />;
+      case "uninstalled":
+        return <Trash2 className="h-4 w-4" />;
       case "failed":
+      case "validation_failed":
       case "rejected":
         return <XCircle className="h-4 w-4" />;
       default:
@@ -215,6 +372,7 @@ export default function VipuDev() {
       case "review":
         return "secondary";
       case "failed":
+      case "validation_failed":
       case "rejected":
         return "destructive";
       default:
@@ -222,6 +380,8 @@ export default function VipuDev() {
     }
   };
 
+  const latestDeployment = jobDetails?.deployments?.find((d) => d.status === "success");
+
   if (!isSuperAdmin) {
     return (
       <div className="p-6">
@@ -344,9 +504,9 @@ export default function VipuDev() {
                             <Skeleton key={i} className="h-20 w-full" />
                           ))}
                         </div>
-                      ) : messages && messages.length > 0 ? (
+                      ) : (messages && messages.length > 0) || chatStream.isStreaming ? (
                         <div className="space-y-4">
-                          {messages.map((msg) => (
+                          {messages?.map((msg) => (
                             <div
                               key={msg.id}
                               className={`flex ${
@@ -375,12 +535,26 @@ export default function VipuDev() {
                               </div>
                             </div>
                           ))}
-                          {sendMessageMutation.isPending && (
-                            <div className="flex justify-start">
-                              <div className="bg-muted rounded-lg p-4">
-                                <Loader2 className="h-5 w-5 animate-spin" />
+                          {chatStream.isStreaming && (
+                            <>
+                              <div className="flex justify-end">
+                                <div className="max-w-[80%] rounded-lg p-4 bg-primary text-primary-foreground">
+                                  <p className="whitespace-pre-wrap">{chatStream.pendingMessage}</p>
+                                </div>
                               </div>
-                            </div>
+                              <div className="flex justify-start">
+                                <div className="max-w-[80%] rounded-lg p-4 bg-muted" data-testid="message-streaming">
+                                  {chatStream.reply ? (
+                                    <div className="flex items-start gap-2">
+                                      <Brain className="h-5 w-5 mt-0.5" />
+                                      <p className="whitespace-pre-wrap">{chatStream.reply}</p>
+                                    </div>
+                                  ) : (
+                                    <Loader2 className="h-5 w-5 animate-spin" />
+                                  )}
+                                </div>
+                              </div>
+                            </>
                           )}
                         </div>
                       ) : (
@@ -405,15 +579,29 @@ export default function VipuDev() {
                         className="min-h-[80px]"
                         data-testid="input-message"
                       />
-                      <Button
-                        onClick={handleSendMessage}
-                        disabled={!messageInput.trim() || sendMessageMutation.isPending}
-                        size="icon"
-                        className="h-[80px]"
-                        data-testid="button-send-message"
-                      >
-                        <Send className="h-5 w-5" />
-                      </Button>
+                      {chatStream.isStreaming ? (
+                        <Button
+                          onClick={chatStream.cancel}
+                          disabled={chatStream.isCancelling}
+                          variant="outline"
+                          size="icon"
+                          className="h-[80px]"
+                          title="Stop generating"
+                          data-testid="button-stop-message"
+                        >
+                          <Square className="h-5 w-5" />
+                        </Button>
+                      ) : (
+                        <Button
+                          onClick={handleSendMessage}
+                          disabled={!messageInput.trim()}
+                          size="icon"
+                          className="h-[80px]"
+                          data-testid="button-send-message"
+                        >
+                          <Send className="h-5 w-5" />
+                        </Button>
+                      )}
                     </div>
                   </>
                 ) : (
@@ -462,7 +650,10 @@ export default function VipuDev() {
                         >
                           <CardHeader className="p-3">
                             <div className="flex items-start justify-between gap-2">
-                              <CardTitle className="text-sm">Job #{job.id}</CardTitle>
+                              <CardTitle className="text-sm">
+                                Job #{job.id}
+                                {job.revision > 1 && <span className="text-muted-foreground font-normal"> · v{job.revision}</span>}
+                              </CardTitle>
                               <Badge variant={getStatusVariant(job.status)} className="flex items-center gap-1">
                                 {getStatusIcon(job.status)}
                                 {job.status}
@@ -533,14 +724,35 @@ export default function VipuDev() {
                       )}
                     </Button>
 
+                    <div>
+                      <Label htmlFor="bundle-file">Or import a module exported from another instance</Label>
+                      <div className="flex gap-2 mt-2">
+                        <Input
+                          id="bundle-file"
+                          type="file"
+                          accept=".json,application/json"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) importBundleMutation.mutate(file);
+                            e.target.value = "";
+                          }}
+                          disabled={importBundleMutation.isPending}
+                          data-testid="input-bundle-file"
+                        />
+                        {importBundleMutation.isPending && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+                      </div>
+                    </div>
+
                     <div className="mt-8 p-4 bg-muted rounded-lg">
                       <h3 className="font-semibold mb-2">What VipuDev.AI will create:</h3>
                       <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
                         <li>Database schema with Drizzle ORM</li>
+                        <li>Migration SQL, run in a transaction on deploy</li>
                         <li>Backend API routes with validation</li>
                         <li>Storage layer CRUD operations</li>
                         <li>Frontend React components</li>
                         <li>Complete TypeScript types</li>
+                        <li>Typecheck against the workspace before review</li>
                       </ul>
                     </div>
                   </div>
@@ -550,6 +762,12 @@ export default function VipuDev() {
                       <div>
                         <h3 className="font-semibold">Request:</h3>
                         <p className="text-sm text-muted-foreground">{jobDetails.requestDescription}</p>
+                        {jobDetails.revision > 1 && (
+                          <p className="text-sm mt-1" data-testid="text-refinement">
+                            <span className="font-semibold">Revision v{jobDetails.revision}:</span>{" "}
+                            {jobDetails.refinement ?? "Blueprint edited by hand"}
+                          </p>
+                        )}
                       </div>
                       <Badge variant={getStatusVariant(jobDetails.status)} className="flex items-center gap-1">
                         {getStatusIcon(jobDetails.status)}
@@ -557,42 +775,200 @@ export default function VipuDev() {
                       </Badge>
                     </div>
 
-                    <ScrollArea className="flex-1">
-                      <div className="space-y-4">
-                        <h3 className="font-semibold">Generated Files:</h3>
-                        {jobDetails.artifacts && jobDetails.artifacts.length > 0 ? (
-                          jobDetails.artifacts.map((artifact) => (
-                            <Card key={artifact.id}>
+                    {jobDetails.revisions?.length > 1 && (
+                      <div className="flex items-center gap-2" data-testid="list-revisions">
+                        <span className="text-sm font-semibold">Revisions:</span>
+                        {jobDetails.revisions.map((revision) => (
+                          <Button
+                            key={revision.id}
+                            size="sm"
+                            variant={revision.id === jobDetails.id ? "default" : "outline"}
+                            onClick={() => setSelectedJobId(revision.id)}
+                            title={revision.refinement ?? jobDetails.requestDescription}
+                            data-testid={`button-revision-${revision.id}`}
+                          >
+                            v{revision.revision}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+
+                    {(jobInProgress || jobEvents.length > 0) && (
+                      <div className="p-3 bg-muted rounded-lg">
+                        <h3 className="font-semibold mb-2">Progress:</h3>
+                        <GenerationProgress events={jobEvents} />
+                      </div>
+                    )}
+
+                    {jobDetails.status === "validation_failed" && jobDetails.errorMessage && (
+                      <pre className="bg-destructive/10 text-destructive p-3 rounded text-xs whitespace-pre-wrap" data-testid="text-validation-errors">
+                        {jobDetails.errorMessage}
+                      </pre>
+                    )}
+
+                    {/* Uninstalling already removed the files, so there is nothing left to roll back */}
+                    {jobDetails.status === "uninstalled" && (
+                      <p className="text-sm text-muted-foreground" data-testid="text-job-uninstalled">
+                        This module was uninstalled. Its tables and data were kept; import its bundle to install it again.
+                      </p>
+                    )}
+
+                    {editingBlueprint && jobDetails.moduleBlueprint ? (
+                      <ScrollArea className="flex-1">
+                        <BlueprintEditor
+                          blueprint={jobDetails.moduleBlueprint as ModuleBlueprint}
+                          onSave={(blueprint) => saveBlueprintMutation.mutate({ jobId: jobDetails.id, blueprint })}
+                          onCancel={() => {
+                            setEditingBlueprint(false);
+                            setBlueprintErrors([]);
+                          }}
+                          isSaving={saveBlueprintMutation.isPending}
+                          serverErrors={blueprintErrors}
+                        />
+                      </ScrollArea>
+                    ) : (
+                      <ScrollArea className="flex-1">
+                        <div className="space-y-4">
+                          <div className="flex items-center justify-between">
+                            <h3 className="font-semibold">Generated Files:</h3>
+                            <ToggleGroup
+                              type="single"
+                              size="sm"
+                              value={diffMode}
+                              onValueChange={(value) => value && setDiffMode(value as DiffViewMode)}
+                              data-testid="toggle-diff-mode"
+                            >
+                              <ToggleGroupItem value="inline">Inline</ToggleGroupItem>
+                              <ToggleGroupItem value="split">Side by side</ToggleGroupItem>
+                            </ToggleGroup>
+                          </div>
+                          {jobDetails.blueprintDiff && (
+                            <Card data-testid="card-blueprint-diff">
                               <CardHeader className="pb-3">
-                                <div className="flex items-center gap-2">
-                                  <FileCode className="h-4 w-4" />
-                                  <CardTitle className="text-sm">{artifact.filePath}</CardTitle>
-                                  <Badge variant="outline" className="ml-auto">
-                                    {artifact.fileType}
-                                  </Badge>
-                                </div>
-                                <CardDescription className="text-xs">
-                                  {artifact.diffPreview}
-                                </CardDescription>
+                                <CardTitle className="text-sm">Blueprint changes since the previous revision</CardTitle>
                               </CardHeader>
                               <CardContent>
-                                <pre className="bg-background p-3 rounded text-xs overflow-x-auto max-h-40">
-                                  <code>{artifact.generatedCode}</code>
-                                </pre>
+                                <DiffViewer diff={jobDetails.blueprintDiff} mode={diffMode} />
                               </CardContent>
                             </Card>
-                          ))
-                        ) : (
-                          <p className="text-sm text-muted-foreground">No artifacts generated yet</p>
-                        )}
+                          )}
+                          {jobDetails.artifacts && jobDetails.artifacts.length > 0 ? (
+                            jobDetails.artifacts.map((artifact) => (
+                              <Card key={artifact.id}>
+                                <CardHeader className="pb-3">
+                                  <div className="flex items-center gap-2">
+                                    <FileCode className="h-4 w-4" />
+                                    <CardTitle className="text-sm">{artifact.filePath}</CardTitle>
+                                    <Badge variant="outline" className="ml-auto">
+                                      {artifact.fileType}
+                                    </Badge>
+                                    <Badge
+                                      variant={artifact.reviewStatus === "rejected" ? "destructive" : artifact.reviewStatus === "accepted" ? "default" : "secondary"}
+                                      data-testid={`badge-review-${artifact.id}`}
+                                    >
+                                      {artifact.reviewStatus}
+                                    </Badge>
+                                  </div>
+                                  {!artifact.diffPreview?.startsWith("--- ") && (
+                                    <CardDescription className="text-xs">
+                                      {artifact.diffPreview || "No changes to this file"}
+                                    </CardDescription>
+                                  )}
+                                </CardHeader>
+                                <CardContent>
+                                  {artifact.diffPreview?.startsWith("--- ") ? (
+                                    <DiffViewer diff={artifact.diffPreview} mode={diffMode} />
+                                  ) : (
+                                    <pre className="bg-background p-3 rounded text-xs overflow-x-auto max-h-40">
+                                      <code>{artifact.generatedCode}</code>
+                                    </pre>
+                                  )}
+                                  {jobDetails.status === "review" && (
+                                    <div className="flex gap-2 mt-2">
+                                      <Button
+                                        size="sm"
+                                        variant={artifact.reviewStatus === "accepted" ? "default" : "outline"}
+                                        onClick={() => reviewArtifactMutation.mutate({ artifactId: artifact.id, status: "accepted" })}
+                                        disabled={reviewArtifactMutation.isPending}
+                                        data-testid={`button-accept-artifact-${artifact.id}`}
+                                      >
+                                        <CheckCircle className="mr-2 h-4 w-4" />
+                                        Accept
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant={artifact.reviewStatus === "rejected" ? "destructive" : "outline"}
+                                        onClick={() => reviewArtifactMutation.mutate({ artifactId: artifact.id, status: "rejected" })}
+                                        disabled={reviewArtifactMutation.isPending}
+                                        data-testid={`button-reject-artifact-${artifact.id}`}
+                                      >
+                                        <XCircle className="mr-2 h-4 w-4" />
+                                        Reject
+                                      </Button>
+                                    </div>
+                                  )}
+                                  {Array.isArray(artifact.diagnostics) && artifact.diagnostics.length > 0 && (
+                                    <ul className="mt-2 space-y-1 text-xs text-destructive" data-testid={`list-diagnostics-${artifact.id}`}>
+                                      {(artifact.diagnostics as ArtifactDiagnostic[]).map((d, i) => (
+                                        <li key={i} className="font-mono">
+                                          {d.line}:{d.column} TS{d.code} {d.message}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </CardContent>
+                              </Card>
+                            ))
+                          ) : (
+                            <p className="text-sm text-muted-foreground">No artifacts generated yet</p>
+                          )}
+                        </div>
+                      </ScrollArea>
+                    )}
+
+                    {!editingBlueprint && EDITABLE_JOB_STATUSES.includes(jobDetails.status) && jobDetails.moduleBlueprint != null && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setEditingBlueprint(true)}
+                        data-testid="button-edit-blueprint"
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit Blueprint
+                      </Button>
+                    )}
+
+                    {jobDetails.status === "review" && (
+                      <div className="flex gap-2 mt-4">
+                        <Input
+                          placeholder="Refine: e.g. add a remarks field to Attendance"
+                          value={refineInstruction}
+                          onChange={(e) => setRefineInstruction(e.target.value)}
+                          data-testid="input-refine-instruction"
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={() => refineJobMutation.mutate({ jobId: jobDetails.id, instruction: refineInstruction })}
+                          disabled={!refineInstruction.trim() || refineJobMutation.isPending}
+                          data-testid="button-refine-job"
+                        >
+                          {refineJobMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Sparkles className="mr-2 h-4 w-4" />
+                          )}
+                          Refine
+                        </Button>
                       </div>
-                    </ScrollArea>
+                    )}
 
                     <div className="flex gap-2 mt-4">
                       {jobDetails.status === "review" && (
                         <Button
                           onClick={() => approveJobMutation.mutate(jobDetails.id)}
-                          disabled={approveJobMutation.isPending}
+                          disabled={
+                            approveJobMutation.isPending ||
+                            !jobDetails.artifacts?.every((a) => a.reviewStatus === "accepted")
+                          }
                           className="flex-1"
                           data-testid="button-approve-job"
                         >
@@ -629,6 +1005,35 @@ export default function VipuDev() {
                           )}
                         </Button>
                       )}
+                      {jobDetails.status === "deployed" && latestDeployment && (
+                        <Button
+                          variant="destructive"
+                          onClick={() => rollbackDeploymentMutation.mutate(latestDeployment.id)}
+                          disabled={rollbackDeploymentMutation.isPending}
+                          className="flex-1"
+                          data-testid="button-rollback-deployment"
+                        >
+                          {rollbackDeploymentMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Rolling back...
+                            </>
+                          ) : (
+                            <>
+                              <Undo2 className="mr-2 h-4 w-4" />
+                              Rollback
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      {EXPORTABLE_JOB_STATUSES.includes(jobDetails.status) && (
+                        <Button variant="outline" asChild data-testid="button-export-bundle">
+                          <a href={`/api/generation/jobs/${jobDetails.id}/bundle`} download>
+                            <Download className="mr-2 h-4 w-4" />
+                            Export Bundle
+                          </a>
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         onClick={() => {
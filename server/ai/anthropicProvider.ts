@@ -0,0 +1,41 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { DEFAULT_ANTHROPIC_MODEL } from './models';
+import { NO_RESPONSE, type LLMProvider, type LLMRequest } from './llmProvider';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private anthropic: Anthropic;
+
+  // baseURL points the client at another endpoint, e.g. a local server in tests
+  constructor(apiKey: string, baseURL?: string) {
+    this.anthropic = new Anthropic({ apiKey, baseURL });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.anthropic.messages.create({
+      model: DEFAULT_ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens,
+      system: request.systemPrompt,
+      messages: request.messages,
+    });
+
+    const textContent = response.content.find(c => c.type === "text");
+    return textContent ? textContent.text : NO_RESPONSE;
+  }
+
+  async *stream(request: LLMRequest, signal: AbortSignal): AsyncIterable<string> {
+    const events = await this.anthropic.messages.create({
+      model: DEFAULT_ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens,
+      system: request.systemPrompt,
+      messages: request.messages,
+      stream: true,
+    }, { signal });
+
+    for await (const event of events) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      }
+    }
+  }
+}
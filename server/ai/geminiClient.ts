@@ -0,0 +1,84 @@
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+export interface GeminiContent {
+  role: "user" | "model";
+  parts: Array<{ text: string }>;
+}
+
+export interface GeminiRequest {
+  model: string;
+  systemInstruction?: string;
+  contents: GeminiContent[];
+  maxOutputTokens?: number;
+}
+
+// The parts of a generateContent response we read
+export interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  error?: { code: number; message: string; status: string };
+}
+
+/**
+ * Minimal client for the Gemini generateContent REST endpoint. The key is sent
+ * in a header so it never shows up in request URLs or error messages.
+ */
+export class GeminiClient {
+  constructor(private apiKey: string, private baseUrl = GEMINI_API_URL) {}
+
+  async generateContent(request: GeminiRequest): Promise<GeminiResponse> {
+    const response = await this.post(`${request.model}:generateContent`, request);
+    return await response.json() as GeminiResponse;
+  }
+
+  /**
+   * Stream a response as server-sent events, yielding each partial response
+   */
+  async *streamGenerateContent(request: GeminiRequest, signal: AbortSignal): AsyncGenerator<GeminiResponse> {
+    const response = await this.post(`${request.model}:streamGenerateContent?alt=sse`, request, signal);
+    if (!response.body) return;
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trim())
+          .join("");
+        if (data) yield JSON.parse(data) as GeminiResponse;
+      }
+    }
+  }
+
+  private async post(method: string, request: GeminiRequest, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/models/${method}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": this.apiKey,
+      },
+      body: JSON.stringify({
+        ...(request.systemInstruction && {
+          systemInstruction: { parts: [{ text: request.systemInstruction }] },
+        }),
+        contents: request.contents,
+        generationConfig: { maxOutputTokens: request.maxOutputTokens },
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({})) as GeminiResponse;
+      throw new Error(`Gemini request failed (${response.status}): ${body.error?.message ?? response.statusText}`);
+    }
+    return response;
+  }
+}
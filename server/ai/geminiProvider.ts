@@ -0,0 +1,51 @@
+import { GeminiClient, type GeminiContent, type GeminiRequest, type GeminiResponse } from './geminiClient';
+import { DEFAULT_GEMINI_MODEL } from './models';
+import { NO_RESPONSE, type LLMProvider, type LLMRequest } from './llmProvider';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private gemini: GeminiClient;
+
+  // baseUrl points the client at another endpoint, e.g. a local server in tests
+  constructor(apiKey: string, baseUrl?: string) {
+    this.gemini = new GeminiClient(apiKey, baseUrl);
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.gemini.generateContent(this.geminiRequest(request));
+    return responseText(response) || NO_RESPONSE;
+  }
+
+  async *stream(request: LLMRequest, signal: AbortSignal): AsyncIterable<string> {
+    for await (const chunk of this.gemini.streamGenerateContent(this.geminiRequest(request), signal)) {
+      const text = responseText(chunk);
+      if (text) yield text;
+    }
+  }
+
+  private geminiRequest(request: LLMRequest): GeminiRequest {
+    // Gemini calls the assistant "model" and takes the system prompt separately
+    const contents: GeminiContent[] = request.messages.map(msg => ({
+      role: msg.role === "assistant" ? "model" : "user",
+      parts: [{ text: msg.content }],
+    }));
+
+    return {
+      model: DEFAULT_GEMINI_MODEL,
+      systemInstruction: request.systemPrompt,
+      contents,
+      maxOutputTokens: request.maxTokens,
+    };
+  }
+}
+
+// Text of a full response or a streamed chunk
+function responseText(response: GeminiResponse): string {
+  if (response.promptFeedback?.blockReason) {
+    throw new Error(`Gemini blocked the prompt (${response.promptFeedback.blockReason})`);
+  }
+
+  return response.candidates?.[0]?.content?.parts
+    ?.map(part => part.text ?? "")
+    .join("") ?? "";
+}
@@ -0,0 +1,26 @@
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  // Conversation so far, ending with the message to answer
+  messages: ChatMessage[];
+  maxTokens: number;
+}
+
+/**
+ * A model backend AIService can talk to. Backends are registered by name in the
+ * provider registry and built from an API key.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: LLMRequest): Promise<string>;
+  // Yields the reply's text as it arrives; aborting the signal stops the request
+  stream(request: LLMRequest, signal: AbortSignal): AsyncIterable<string>;
+}
+
+export type LLMProviderFactory = (apiKey: string) => LLMProvider;
+
+export const NO_RESPONSE = "No response generated";
@@ -0,0 +1,80 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { LLMProvider, LLMRequest } from './llmProvider';
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), 'server/ai/fixtures');
+
+/**
+ * A scripted reply. Entries with `match` answer messages containing that text
+ * (case-insensitive); entries without it answer anything no other entry matched.
+ * Object responses are sent as formatted JSON.
+ */
+interface MockFixture {
+  match?: string;
+  response: unknown;
+}
+
+/**
+ * Answers from fixture files instead of a model, so local development, tests and
+ * CI get the same reply to the same prompt every time. Reads every *.json file in
+ * AI_MOCK_FIXTURES (server/ai/fixtures by default) in file name order; each holds
+ * an array of fixtures and the first one that matches the last user message wins.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private fixtures: Promise<MockFixture[]> | null = null;
+
+  constructor(private fixturesDir = process.env.AI_MOCK_FIXTURES || DEFAULT_FIXTURES_DIR) {}
+
+  async generate(request: LLMRequest): Promise<string> {
+    return await this.reply(request);
+  }
+
+  // Sends the scripted reply a word at a time, like a model streaming tokens
+  async *stream(request: LLMRequest, signal: AbortSignal): AsyncIterable<string> {
+    const reply = await this.reply(request);
+    for (const word of reply.match(/\s*\S+/g) ?? []) {
+      signal.throwIfAborted();
+      yield word;
+    }
+  }
+
+  private async reply(request: LLMRequest): Promise<string> {
+    const message = [...request.messages].reverse().find(m => m.role === "user")?.content ?? "";
+    const fixtures = await this.loadFixtures();
+
+    const fixture =
+      fixtures.find(f => f.match !== undefined && message.toLowerCase().includes(f.match.toLowerCase())) ??
+      fixtures.find(f => f.match === undefined);
+    if (!fixture) {
+      throw new Error(`No mock fixture in ${this.fixturesDir} matches the message "${message.slice(0, 80)}"`);
+    }
+
+    return typeof fixture.response === "string"
+      ? fixture.response
+      : JSON.stringify(fixture.response, null, 2);
+  }
+
+  private loadFixtures(): Promise<MockFixture[]> {
+    this.fixtures ??= this.readFixtures().catch(error => {
+      // Let a fixed file be picked up on the next request
+      this.fixtures = null;
+      throw error;
+    });
+    return this.fixtures;
+  }
+
+  private async readFixtures(): Promise<MockFixture[]> {
+    const files = (await fs.readdir(this.fixturesDir)).filter(file => file.endsWith('.json')).sort();
+
+    const fixtures: MockFixture[] = [];
+    for (const file of files) {
+      const entries = JSON.parse(await fs.readFile(path.join(this.fixturesDir, file), 'utf-8'));
+      if (!Array.isArray(entries) || entries.some(e => typeof e !== "object" || e === null || !("response" in e))) {
+        throw new Error(`Mock fixture file ${file} must hold an array of { match?, response } entries`);
+      }
+      fixtures.push(...entries);
+    }
+    return fixtures;
+  }
+}
@@ -0,0 +1,47 @@
+import OpenAI from 'openai';
+import { DEFAULT_OPENAI_MODEL } from './models';
+import { NO_RESPONSE, type LLMProvider, type LLMRequest } from './llmProvider';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private openai: OpenAI;
+
+  // baseURL points the client at another endpoint, e.g. a local server in tests
+  constructor(apiKey: string, baseURL?: string) {
+    this.openai = new OpenAI({ apiKey, baseURL });
+  }
+
+  async generate(request: LLMRequest): Promise<string> {
+    const response = await this.openai.chat.completions.create({
+      model: DEFAULT_OPENAI_MODEL,
+      messages: this.messages(request),
+      max_tokens: request.maxTokens,
+    });
+
+    return response.choices[0]?.message?.content || NO_RESPONSE;
+  }
+
+  async *stream(request: LLMRequest, signal: AbortSignal): AsyncIterable<string> {
+    const chunks = await this.openai.chat.completions.create({
+      model: DEFAULT_OPENAI_MODEL,
+      messages: this.messages(request),
+      max_tokens: request.maxTokens,
+      stream: true,
+    }, { signal });
+
+    for await (const chunk of chunks) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  private messages(request: LLMRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      {
+        role: "system",
+        content: request.systemPrompt,
+      },
+      ...request.messages,
+    ];
+  }
+}
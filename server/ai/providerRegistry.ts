@@ -0,0 +1,35 @@
+import { AnthropicProvider } from './anthropicProvider';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+import { OpenAIProvider } from './openaiProvider';
+import type { LLMProvider, LLMProviderFactory } from './llmProvider';
+
+/**
+ * LLM backends by name. A new backend only needs an LLMProvider implementation
+ * and a register() call here.
+ */
+export class ProviderRegistry {
+  private factories = new Map<string, LLMProviderFactory>();
+
+  register(name: string, factory: LLMProviderFactory): void {
+    this.factories.set(name, factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  // null when no backend is registered under the name
+  create(name: string, apiKey: string): LLMProvider | null {
+    const factory = this.factories.get(name);
+    return factory ? factory(apiKey) : null;
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register('anthropic', apiKey => new AnthropicProvider(apiKey));
+providerRegistry.register('openai', apiKey => new OpenAIProvider(apiKey));
+providerRegistry.register('gemini', apiKey => new GeminiProvider(apiKey));
+// Scripted replies from fixture files; needs no key
+providerRegistry.register('mock', () => new MockProvider());
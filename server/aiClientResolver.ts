@@ -0,0 +1,135 @@
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import { decryptApiKey } from './auth/apiKeyEncryption';
+import { providerRegistry } from './ai/providerRegistry';
+import type { LLMProvider } from './ai/llmProvider';
+import type { School } from '@shared/schema';
+
+// Whose key a client was built with
+export type AIClientSource = 'school' | 'platform';
+
+export interface AIClient {
+  provider: LLMProvider;
+  source: AIClientSource;
+}
+
+// Platform providers tried in order when AI_PROVIDER does not name one
+const PLATFORM_PROVIDERS = [
+  { name: 'anthropic', label: 'Anthropic Claude' },
+  { name: 'openai', label: 'OpenAI GPT' },
+  { name: 'gemini', label: 'Google Gemini' },
+];
+
+/**
+ * Picks the AI client for a request: the school's own provider and key when it has
+ * one, otherwise the platform key from the environment. Schools only get the platform
+ * key when a super admin turns on `allowPlatformAi` in their settings; requests
+ * without a school (super admins) always use it.
+ */
+export class AIClientResolver {
+  private platformClient: AIClient | null = null;
+  // Keyed by school; the fingerprint notices when the school changes its provider or key
+  private schoolClients = new Map<number, { fingerprint: string; client: AIClient }>();
+
+  constructor() {
+    // AI_PROVIDER picks a backend explicitly, e.g. "mock" for local development and CI
+    const configured = process.env.AI_PROVIDER;
+    if (configured) {
+      this.platformClient = createClient(configured, platformApiKey(configured) ?? '', 'platform');
+      if (this.platformClient) {
+        console.log(`AI Service initialized with the ${configured} provider`);
+      } else {
+        console.warn(`AI Service not configured - AI_PROVIDER "${configured}" is not a known provider.`);
+      }
+      return;
+    }
+
+    // Otherwise the first provider with a key wins, Anthropic preferred
+    const available = PLATFORM_PROVIDERS.find(p => platformApiKey(p.name));
+    if (available) {
+      this.platformClient = createClient(available.name, platformApiKey(available.name)!, 'platform');
+      console.log(`AI Service initialized with ${available.label}`);
+    }
+    else {
+      console.warn("AI Service not configured - no API key found. VipuDev.AI will have limited functionality.");
+    }
+  }
+
+  /**
+   * The client to use for a school, or null when it has no usable key and may not use the platform's
+   */
+  async resolve(schoolId?: number | null): Promise<AIClient | null> {
+    if (schoolId === undefined || schoolId === null) {
+      return this.platformClient;
+    }
+
+    const school = await storage.getSchool(schoolId);
+    if (!school) {
+      throw new Error("School not found");
+    }
+
+    const schoolClient = this.schoolClient(school);
+    if (schoolClient) {
+      return schoolClient;
+    }
+
+    return allowsPlatformAi(school) ? this.platformClient : null;
+  }
+
+  /**
+   * Drop a school's cached client after its AI configuration changes
+   */
+  invalidate(schoolId: number): void {
+    this.schoolClients.delete(schoolId);
+  }
+
+  getPlatformProvider(): string {
+    return this.platformClient?.provider.name ?? 'none';
+  }
+
+  private schoolClient(school: School): AIClient | null {
+    if (!school.aiProvider || !school.aiApiKey) {
+      return null;
+    }
+
+    // Hashes the stored (encrypted) key, so a cache hit never decrypts it
+    const fingerprint = createHash('sha256')
+      .update(`${school.aiProvider}:${school.aiApiKeyVersion}:${school.aiApiKey}`)
+      .digest('hex');
+    const cached = this.schoolClients.get(school.id);
+    if (cached?.fingerprint === fingerprint) {
+      return cached.client;
+    }
+
+    // Keys saved before encryption was added stay readable until rotateAiKeys encrypts them
+    const apiKey = school.aiApiKeyVersion === null
+      ? school.aiApiKey
+      : decryptApiKey({ ciphertext: school.aiApiKey, keyVersion: school.aiApiKeyVersion });
+    const client = createClient(school.aiProvider, apiKey, 'school');
+    if (!client) {
+      console.warn(`School ${school.id} uses unsupported AI provider "${school.aiProvider}"`);
+      this.schoolClients.delete(school.id);
+      return null;
+    }
+
+    this.schoolClients.set(school.id, { fingerprint, client });
+    return client;
+  }
+}
+
+function createClient(name: string, apiKey: string, source: AIClientSource): AIClient | null {
+  const provider = providerRegistry.create(name, apiKey);
+  return provider ? { provider, source } : null;
+}
+
+// e.g. ANTHROPIC_API_KEY for "anthropic"
+function platformApiKey(name: string): string | undefined {
+  return process.env[`${name.toUpperCase()}_API_KEY`];
+}
+
+function allowsPlatformAi(school: School): boolean {
+  const settings = school.settings as { allowPlatformAi?: boolean } | null;
+  return settings?.allowPlatformAi === true;
+}
+
+export const aiClientResolver = new AIClientResolver();
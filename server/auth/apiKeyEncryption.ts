@@ -0,0 +1,143 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * An API key sealed with its own data key, which is in turn sealed with the
+ * master key of `keyVersion`
+ */
+export interface EncryptedApiKey {
+  ciphertext: string;
+  keyVersion: number;
+}
+
+export class ApiKeyEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApiKeyEncryptionError";
+  }
+}
+
+let masterKeys: Map<number, Buffer> | null = null;
+
+/**
+ * Versioned master keys from AI_KEY_MASTER_KEYS, e.g. "2:<base64>,1:<base64>".
+ * Each key is 32 random bytes; the highest version encrypts new keys and the
+ * others stay listed until `tsx server/rotateAiKeys.ts` has moved every school off them.
+ */
+function loadMasterKeys(): Map<number, Buffer> {
+  if (masterKeys) return masterKeys;
+
+  const raw = process.env.AI_KEY_MASTER_KEYS;
+  if (!raw) {
+    throw new ApiKeyEncryptionError("AI_KEY_MASTER_KEYS environment variable is required to store AI API keys");
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const entry of raw.split(",").map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const version = Number(entry.slice(0, separator));
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator === -1 || !Number.isInteger(version) || version < 1) {
+      throw new ApiKeyEncryptionError("AI_KEY_MASTER_KEYS entries must look like <version>:<base64 key>");
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new ApiKeyEncryptionError(`AI_KEY_MASTER_KEYS version ${version} must be ${KEY_LENGTH} bytes`);
+    }
+    keys.set(version, key);
+  }
+  if (keys.size === 0) {
+    throw new ApiKeyEncryptionError("AI_KEY_MASTER_KEYS does not list any keys");
+  }
+
+  masterKeys = keys;
+  return keys;
+}
+
+/**
+ * Version of the master key new API keys are encrypted with
+ */
+export function currentKeyVersion(): number {
+  return Math.max(...Array.from(loadMasterKeys().keys()));
+}
+
+/**
+ * Encrypt an API key under a fresh data key, wrapped with the current master key
+ */
+export function encryptApiKey(apiKey: string): EncryptedApiKey {
+  const keyVersion = currentKeyVersion();
+  const dataKey = randomBytes(KEY_LENGTH);
+  const payload = seal(dataKey, Buffer.from(apiKey, "utf-8"));
+  return { ciphertext: `${wrapDataKey(dataKey, keyVersion)}.${payload}`, keyVersion };
+}
+
+/**
+ * Decrypt an API key; the result must never be logged or sent in a response
+ */
+export function decryptApiKey(encrypted: EncryptedApiKey): string {
+  const [wrappedKey, payload] = splitCiphertext(encrypted.ciphertext);
+  const dataKey = unwrapDataKey(wrappedKey, encrypted.keyVersion);
+  return open(dataKey, payload).toString("utf-8");
+}
+
+/**
+ * Rewrap an API key's data key with the current master key. The key itself is
+ * never decrypted, so rotating the master key only touches the wrapped data keys.
+ */
+export function reencryptApiKey(encrypted: EncryptedApiKey): EncryptedApiKey {
+  const keyVersion = currentKeyVersion();
+  if (encrypted.keyVersion === keyVersion) return encrypted;
+
+  const [wrappedKey, payload] = splitCiphertext(encrypted.ciphertext);
+  const dataKey = unwrapDataKey(wrappedKey, encrypted.keyVersion);
+  return { ciphertext: `${wrapDataKey(dataKey, keyVersion)}.${payload}`, keyVersion };
+}
+
+// The key version is authenticated with the wrapped key so it cannot be swapped for another
+function wrapDataKey(dataKey: Buffer, keyVersion: number): string {
+  return seal(masterKey(keyVersion), dataKey, Buffer.from(`v${keyVersion}`));
+}
+
+function unwrapDataKey(wrappedKey: string, keyVersion: number): Buffer {
+  return open(masterKey(keyVersion), wrappedKey, Buffer.from(`v${keyVersion}`));
+}
+
+function masterKey(keyVersion: number): Buffer {
+  const key = loadMasterKeys().get(keyVersion);
+  if (!key) {
+    throw new ApiKeyEncryptionError(`Master key version ${keyVersion} is not in AI_KEY_MASTER_KEYS`);
+  }
+  return key;
+}
+
+// base64 of iv | auth tag | ciphertext
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(aad);
+  const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string, aad?: Buffer): Buffer {
+  const bytes = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, bytes.subarray(0, IV_LENGTH));
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  try {
+    return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  } catch {
+    throw new ApiKeyEncryptionError("Encrypted API key could not be decrypted");
+  }
+}
+
+function splitCiphertext(ciphertext: string): [string, string] {
+  const parts = ciphertext.split(".");
+  if (parts.length !== 2) {
+    throw new ApiKeyEncryptionError("Encrypted API key is malformed");
+  }
+  return [parts[0], parts[1]];
+}
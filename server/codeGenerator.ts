@@ -1,100 +1,277 @@
 import { aiService } from "./aiService";
 import { storage } from "./storage";
-import type { InsertModuleGenerationJob, InsertGenerationArtifact } from "@shared/schema";
-
-interface ModuleBlueprint {
-  moduleName: string;
-  description: string;
-  entities: EntityDefinition[];
-  relationships: Relationship[];
-  apiRoutes: RouteDefinition[];
-  uiComponents: ComponentDefinition[];
-}
+import { generationSteps, userRoles, type InsertModuleGenerationJob, type InsertGenerationArtifact, type GenerationStep, type ModuleGenerationJob } from "@shared/schema";
+import {
+  BlueprintValidationError,
+  entityBasePath,
+  enumIdentifier,
+  enumTypeName,
+  entityPages,
+  expandRoutes,
+  fieldTsType,
+  fieldTypes,
+  kebabCase,
+  loadBlueprintContext,
+  modulePagePath,
+  validateBlueprint,
+  type BlueprintContext,
+  type BlueprintValidationResult,
+  type CrossFieldRule,
+  type EntityDefinition,
+  type FieldDefinition,
+  type ModuleBlueprint,
+  TENANT_COLUMN,
+  TENANT_FIELD,
+  tenantFields,
+  tenantIndexName,
+} from "./generation/blueprint";
+import { blueprintEnumTypes, buildMigration, formatMigration, loadExistingColumns, loadExistingEnums } from "./generation/migrationGenerator";
+import { buildModuleTests, moduleTestPath } from "./generation/testGenerator";
+import { bundleArtifactsByStep, type ModuleBundle } from "./generation/moduleBundle";
+import { typecheckService } from "./generation/typecheckService";
+import { deploymentService } from "./generation/deploymentService";
+import { entityFields, findForeignKey, planRelationships, relationKey } from "./generation/relationships";
+import {
+  emptyFormCode,
+  fieldLabel,
+  formFields,
+  formImports,
+  formInputCode,
+  formPayloadCode,
+  formPreflightCode,
+  formValueCode,
+} from "./generation/formFields";
 
-interface EntityDefinition {
-  name: string;
-  tableName: string;
-  fields: FieldDefinition[];
-}
+// How many times invalid blueprints are sent back to the model before the job fails
+const MAX_BLUEPRINT_REPAIR_ATTEMPTS = 2;
 
-interface FieldDefinition {
-  name: string;
-  type: string; // varchar, text, integer, boolean, timestamp, etc.
-  required: boolean;
-  unique?: boolean;
-  default?: string;
-  length?: number;
-}
+// How many compiler errors are listed in a job's error message; all of them are stored on the artifacts
+const MAX_REPORTED_DIAGNOSTICS = 10;
 
-interface Relationship {
-  from: string;
-  to: string;
-  type: "one-to-many" | "many-to-one" | "many-to-many";
-}
-
-interface RouteDefinition {
-  method: "GET" | "POST" | "PATCH" | "DELETE";
-  path: string;
-  description: string;
-  requiresAuth: boolean;
-  requiresSuperAdmin?: boolean;
-}
-
-interface ComponentDefinition {
-  name: string;
-  type: "page" | "component";
-  path?: string;
-  description: string;
-}
+// Columns shown in a generated page's table; the edit form shows every field
+const MAX_TABLE_COLUMNS = 6;
 
 export class CodeGeneratorService {
   /**
-   * Generate a complete module from natural language description
+   * Queue a module generation request; the generation worker picks it up
    */
-  async generateModule(
+  async enqueueModule(
     userId: string,
     requestDescription: string,
     conversationId?: number,
     schoolId?: number
   ): Promise<number> {
-    // Create job record
     const job = await storage.createGenerationJob({
       userId,
       conversationId: conversationId ?? null,
       moduleId: null,
       schoolId: schoolId ?? null,
       requestDescription,
-      status: "generating",
+      status: "pending",
     } as any);
+    return job.id;
+  }
 
-    try {
+  /**
+   * Queue a new revision of a job whose blueprint is reworked according to a follow-up instruction
+   */
+  async enqueueRefinement(userId: string, job: ModuleGenerationJob, instruction: string): Promise<ModuleGenerationJob> {
+    return await this.enqueueRevision(userId, job, { refinement: instruction });
+  }
+
+  /**
+   * Queue a new revision of a job from a hand-edited blueprint. The artifacts are
+   * regenerated from it without calling the AI.
+   */
+  async enqueueEditedBlueprint(userId: string, job: ModuleGenerationJob, raw: unknown): Promise<ModuleGenerationJob> {
+    const result = this.checkBlueprint(raw, await loadBlueprintContext());
+    if (!result.success) {
+      throw new BlueprintValidationError(result.errors);
+    }
+    return await this.enqueueRevision(userId, job, { moduleBlueprint: result.blueprint });
+  }
+
+  /**
+   * Queue a job for a module bundle exported by another instance. The bundle's files
+   * are checked and reviewed like generated ones, without calling the AI.
+   */
+  async enqueueImportedBundle(userId: string, bundle: ModuleBundle, schoolId?: number): Promise<ModuleGenerationJob> {
+    const result = this.checkBlueprint(bundle.blueprint, await loadBlueprintContext());
+    if (!result.success) {
+      throw new BlueprintValidationError(result.errors);
+    }
+
+    const { moduleName, revision, sourceJobId } = bundle.manifest;
+    return await storage.createGenerationJob({
+      userId,
+      conversationId: null,
+      moduleId: null,
+      schoolId: schoolId ?? null,
+      requestDescription: `Imported ${moduleName} bundle (job #${sourceJobId} v${revision} on the exporting instance)`,
+      moduleBlueprint: result.blueprint,
+      importedBundle: bundle,
+      status: "pending",
+    } as any);
+  }
+
+  private async enqueueRevision(
+    userId: string,
+    job: ModuleGenerationJob,
+    changes: Pick<InsertModuleGenerationJob, "refinement" | "moduleBlueprint">
+  ): Promise<ModuleGenerationJob> {
+    const originalJobId = job.originalJobId ?? job.id;
+    const revisions = await storage.getJobRevisions(originalJobId);
+    const revision = Math.max(...revisions.map(r => r.revision)) + 1;
+
+    return await storage.createGenerationJob({
+      userId,
+      conversationId: job.conversationId,
+      moduleId: job.moduleId,
+      schoolId: job.schoolId,
+      requestDescription: job.requestDescription,
+      originalJobId,
+      parentJobId: job.id,
+      revision,
+      ...changes,
+      status: "pending",
+    });
+  }
+
+  /**
+   * Run the next step of a claimed job and save where it got to, so the job can be
+   * re-queued between steps and each worker run stays short. A saved blueprint (from
+   * an earlier attempt or a hand edit) is reused, so the AI is not asked again.
+   * Returns true once the job has left the queue.
+   */
+  async runJobStep(job: ModuleGenerationJob): Promise<boolean> {
+    const step = (job.nextStep ?? "blueprint") as GenerationStep;
+
+    switch (step) {
       // Step 1: Generate module blueprint using AI
-      const blueprint = await this.createBlueprint(requestDescription);
-      
-      // Update job with blueprint
-      await storage.updateGenerationJob(job.id, {
-        moduleBlueprint: blueprint as any,
-        status: "generating",
-      });
+      case "blueprint":
+        await this.loadBlueprint(job);
+        await storage.updateGenerationJob(job.id, { nextStep: "schema" });
+        return false;
+
+      // Step 2: Generate code artifacts, discarding any left by an interrupted attempt
+      case "schema": {
+        const blueprint = job.moduleBlueprint as ModuleBlueprint;
+        await storage.deleteJobArtifacts(job.id);
+        if (job.importedBundle) {
+          await this.restoreBundleArtifacts(job.id, job.importedBundle as ModuleBundle, blueprint);
+        } else {
+          await this.runStep(job.id, "schema", () => this.generateSchemaCode(job.id, blueprint));
+          await this.runStep(job.id, "migration", () => this.generateMigrationCode(job.id, blueprint));
+          await this.runStep(job.id, "storage", () => this.generateStorageCode(job.id, blueprint));
+          await this.runStep(job.id, "routes", () => this.generateRouteCode(job.id, blueprint));
+          await this.runStep(job.id, "frontend", () => this.generateFrontendCode(job.id, blueprint));
+          await this.runStep(job.id, "tests", () => this.generateTestCode(job.id, blueprint));
+        }
+        await storage.updateGenerationJob(job.id, { nextStep: "diff" });
+        return false;
+      }
+
+      // Step 3: Diff every artifact against the file it changes
+      case "diff":
+        await this.runStep(job.id, "diff", () => deploymentService.previewDiffs(job.id));
+        await storage.updateGenerationJob(job.id, { nextStep: "typecheck" });
+        return false;
+
+      // Step 4: Typecheck the artifacts against a copy of the workspace
+      case "typecheck": {
+        const diagnostics = await this.runStep(job.id, "typecheck", () => typecheckService.validateJob(job.id));
+        if (diagnostics.length > 0) {
+          const summary = diagnostics
+            .slice(0, MAX_REPORTED_DIAGNOSTICS)
+            .map(d => `${d.file}(${d.line},${d.column}): ${d.message}`);
+          await storage.updateGenerationJob(job.id, {
+            status: "validation_failed",
+            errorMessage: `Generated code has ${diagnostics.length} TypeScript error(s):\n${summary.join("\n")}`,
+            lockedBy: null,
+            lockedAt: null,
+          });
+          return true;
+        }
+
+        // Step 5: Mark job as ready for review
+        await storage.updateGenerationJob(job.id, {
+          status: "review",
+          errorMessage: null,
+          lockedBy: null,
+          lockedAt: null,
+        });
+        return true;
+      }
+
+      default:
+        throw new Error(`Unknown generation step "${step}"`);
+    }
+  }
+
+  private async loadBlueprint(job: ModuleGenerationJob): Promise<ModuleBlueprint> {
+    if (job.moduleBlueprint) {
+      const source = job.importedBundle ? "the imported bundle's" : "the saved";
+      await this.recordEvent(job.id, "blueprint", "completed", `Using ${source} blueprint`);
+      return job.moduleBlueprint as ModuleBlueprint;
+    }
 
-      // Step 2: Generate code artifacts
-      await this.generateSchemaCode(job.id, blueprint);
-      await this.generateStorageCode(job.id, blueprint);
-      await this.generateRouteCode(job.id, blueprint);
-      await this.generateFrontendCode(job.id, blueprint);
+    const blueprint = await this.runStep(job.id, "blueprint", async () => {
+      if (!job.refinement) {
+        return await this.createBlueprint(job.requestDescription, job.schoolId);
+      }
 
-      // Step 3: Mark job as ready for review
-      await storage.updateGenerationJob(job.id, {
-        status: "review",
+      const parent = job.parentJobId ? await storage.getGenerationJob(job.parentJobId) : undefined;
+      if (!parent?.moduleBlueprint) {
+        throw new Error("The job this revision refines no longer has a blueprint");
+      }
+      return await this.refineBlueprint(parent.moduleBlueprint as ModuleBlueprint, job.refinement, job.schoolId);
+    });
+    await storage.updateGenerationJob(job.id, {
+      moduleBlueprint: blueprint as any,
+    });
+    return blueprint;
+  }
+
+  /**
+   * Store an imported bundle's files as the job's artifacts, reporting each
+   * generation step as done by the bundle. The migration is generated again from the
+   * blueprint against this database's tables; the bundle's exported SQL was written
+   * for the exporting instance and is only kept in the bundle for reference.
+   */
+  private async restoreBundleArtifacts(jobId: number, bundle: ModuleBundle, blueprint: ModuleBlueprint): Promise<void> {
+    const byStep = bundleArtifactsByStep(bundle);
+    for (const step of generationSteps) {
+      if (step === "migration") {
+        await this.runStep(jobId, step, () => this.generateMigrationCode(jobId, blueprint));
+        continue;
+      }
+
+      const artifacts = byStep.get(step);
+      if (!artifacts) continue;
+
+      await this.runStep(jobId, step, async () => {
+        for (const { filePath, fileType, generatedCode } of artifacts) {
+          await storage.createArtifact({ jobId, filePath, fileType, generatedCode, diffPreview: null, isApplied: false });
+        }
       });
+    }
+  }
 
-      return job.id;
+  /**
+   * Append to a job's progress log, which the events endpoint streams to the client
+   */
+  async recordEvent(jobId: number, step: GenerationStep | null, status: string, message?: string): Promise<void> {
+    await storage.createJobEvent({ jobId, step, status, message: message ?? null });
+  }
+
+  private async runStep<T>(jobId: number, step: GenerationStep, run: () => Promise<T>): Promise<T> {
+    await this.recordEvent(jobId, step, "started");
+    try {
+      const result = await run();
+      await this.recordEvent(jobId, step, "completed");
+      return result;
     } catch (error: any) {
-      // Mark job as failed
-      await storage.updateGenerationJob(job.id, {
-        status: "failed",
-        errorMessage: error.message,
-      });
+      await this.recordEvent(jobId, step, "failed", error.message);
       throw error;
     }
   }
@@ -102,7 +279,7 @@ export class CodeGeneratorService {
   /**
    * Create a structured blueprint from natural language using AI
    */
-  private async createBlueprint(requestDescription: string): Promise<ModuleBlueprint> {
+  private async createBlueprint(requestDescription: string, schoolId: number | null): Promise<ModuleBlueprint> {
     const prompt = `You are a database and API architect. Given the following module request, create a detailed technical blueprint.
 
 REQUEST: ${requestDescription}
@@ -117,69 +294,163 @@ Generate a JSON blueprint with this exact structure:
       "tableName": "attendance_records",
       "fields": [
         {"name": "id", "type": "serial", "required": true},
-        {"name": "studentId", "type": "varchar", "required": true},
-        {"name": "date", "type": "timestamp", "required": true},
-        {"name": "status", "type": "varchar", "required": true, "length": 20},
-        {"name": "remarks", "type": "text", "required": false}
+        {"name": "studentId", "type": "user", "required": true},
+        {"name": "date", "type": "date", "required": true},
+        {"name": "status", "type": "enum", "enumValues": ["present", "absent", "late"], "required": true},
+        {"name": "lateFee", "type": "numeric", "precision": 10, "scale": 2, "required": false, "validation": {"min": 0}},
+        {"name": "markedBy", "type": "user", "required": false},
+        {"name": "remarks", "type": "text", "required": false, "validation": {"max": 500}}
+      ],
+      "ownerField": "studentId"
+    },
+    {
+      "name": "LeaveRequest",
+      "tableName": "leave_requests",
+      "fields": [
+        {"name": "id", "type": "serial", "required": true},
+        {"name": "startDate", "type": "date", "required": true},
+        {"name": "endDate", "type": "date", "required": true},
+        {"name": "contactEmail", "type": "varchar", "length": 255, "required": false, "validation": {"format": "email"}}
+      ],
+      "rules": [
+        {"field": "endDate", "operator": ">=", "otherField": "startDate", "message": "End date cannot be before the start date"}
       ]
     }
   ],
   "relationships": [
-    {"from": "attendance_records", "to": "users", "type": "many-to-one"}
+    {"from": "attendance_records", "to": "leave_requests", "type": "many-to-one", "foreignKey": "leaveRequestId"}
   ],
   "apiRoutes": [
-    {"method": "GET", "path": "/api/attendance", "description": "List attendance records", "requiresAuth": true},
-    {"method": "POST", "path": "/api/attendance", "description": "Create attendance record", "requiresAuth": true, "requiresSuperAdmin": false}
+    {"method": "GET", "path": "/api/attendance", "description": "List attendance records", "requiresAuth": true, "allowedRoles": ["school_admin", "admin", "teacher", "student"], "ownRecordsOnly": ["student"], "entity": "Attendance"},
+    {"method": "POST", "path": "/api/attendance", "description": "Create attendance record", "requiresAuth": true, "requiresSuperAdmin": false, "allowedRoles": ["school_admin", "admin", "teacher"], "entity": "Attendance"}
   ],
   "uiComponents": [
-    {"name": "AttendancePage", "type": "page", "path": "/attendance", "description": "Attendance management page"},
+    {"name": "AttendancePage", "type": "page", "path": "/attendance", "description": "Attendance management page", "entity": "Attendance"},
     {"name": "AttendanceForm", "type": "component", "description": "Form to mark attendance"}
   ]
 }
 
 Return ONLY valid JSON, no markdown or explanation.`;
 
-    const response = await aiService.generateResponse(prompt, []);
-    
-    // Parse JSON response
-    try {
-      // Extract JSON from markdown code blocks if present
-      let jsonStr = response.trim();
-      if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.replace(/```json\n?/, '').replace(/```\n?$/, '').trim();
+    return await this.requestBlueprint(prompt, schoolId);
+  }
+
+  /**
+   * Rework an existing blueprint according to a follow-up instruction
+   */
+  private async refineBlueprint(blueprint: ModuleBlueprint, instruction: string, schoolId: number | null): Promise<ModuleBlueprint> {
+    const prompt = `You are a database and API architect. Update this module blueprint according to the change request.
+
+CURRENT BLUEPRINT:
+${JSON.stringify(blueprint, null, 2)}
+
+CHANGE REQUEST: ${instruction}
+
+Return the complete updated blueprint with the same structure. Keep the module name and existing entity and table names unless the change request asks to rename them. Required fields added to an existing entity need a literal "default" (e.g. "0", "false" or "\\"pending\\""), since its table may already have rows.
+
+Return ONLY valid JSON, no markdown or explanation.`;
+
+    return await this.requestBlueprint(prompt, schoolId);
+  }
+
+  /**
+   * Ask the school's AI (the platform's for jobs without a school) for a blueprint, sending
+   * validation errors back for a limited number of repair attempts
+   */
+  private async requestBlueprint(prompt: string, schoolId: number | null): Promise<ModuleBlueprint> {
+    const context = await loadBlueprintContext();
+    const history: Array<{ role: string; content: string }> = [];
+    let message = `${prompt}
+
+Allowed field types: ${fieldTypes.join(", ")}.
+Every "id" field is "serial". Use "date" for calendar dates, "numeric" with "precision" and "scale" for fees and marks, "enum" with "enumValues" for fixed choices, "user" for references to users, "jsonb" for free-form data and "array": true for lists. "length" only applies to varchar.
+Add "validation" to fields that need checks: "min"/"max" (values of integer and numeric fields, lengths of varchar and text, item counts of arrays), "pattern" (a regular expression) or "format" ("email", "phone" or "url") for varchar and text, and "message" to replace the default error. Add "rules" to entities for comparisons between two fields of the same type, e.g. an end date after a start date.
+Relationships use table names. "foreignKey" names the field on the "many" side (defaults to <target>Id); many-to-many relationships get a join table.
+Set "entity" on every route and component to the entity name it works with. Routes can limit access with "allowedRoles" (${userRoles.join(", ")}); roles in "ownRecordsOnly" only reach rows whose "ownerField", a user field of the entity, is their own user. Every entity gets list/get/create/update/delete routes and a page, so only declare the ones that need a specific path or description. Routes that are not declared copy the access rules of the entity's first declared GET route (for reads) or other route (for writes), and are limited to school_admin and admin when there is none.
+These tables already exist and must not be redefined: ${Array.from(context.reservedTables).join(", ")}.`;
+    let errors: string[] = [];
+
+    // Send validation errors back to the model for a limited number of repair attempts
+    for (let attempt = 0; attempt <= MAX_BLUEPRINT_REPAIR_ATTEMPTS; attempt++) {
+      const response = await aiService.generateResponse(message, history, schoolId);
+      history.push({ role: "user", content: message }, { role: "assistant", content: response });
+
+      const result = this.parseBlueprint(response, context);
+      if (result.success) {
+        return result.blueprint;
       }
-      return JSON.parse(jsonStr);
+
+      errors = result.errors;
+      message = `The blueprint you returned is invalid:
+${errors.map(e => `- ${e}`).join("\n")}
+
+Fix these problems and return the complete corrected blueprint. Return ONLY valid JSON, no markdown or explanation.`;
+    }
+
+    throw new BlueprintValidationError(errors);
+  }
+
+  /**
+   * Parse model output as JSON and validate it as a blueprint
+   */
+  private parseBlueprint(response: string, context: BlueprintContext): BlueprintValidationResult {
+    // Extract JSON from markdown code blocks if present
+    let jsonStr = response.trim();
+    if (jsonStr.startsWith('```')) {
+      jsonStr = jsonStr.replace(/```json\n?/, '').replace(/```\n?$/, '').trim();
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(jsonStr);
     } catch (error: any) {
-      throw new Error(`Failed to parse blueprint JSON: ${error.message}`);
+      return { success: false, errors: [`Failed to parse blueprint JSON: ${error.message}`] };
     }
+
+    return this.checkBlueprint(raw, context);
+  }
+
+  private checkBlueprint(raw: unknown, context: BlueprintContext): BlueprintValidationResult {
+    const result = validateBlueprint(raw, context);
+    if (!result.success) return result;
+
+    // Relationships can only be checked once every entity is known to be well-formed
+    const { errors } = planRelationships(result.blueprint);
+    return errors.length > 0 ? { success: false, errors } : result;
   }
 
   /**
    * Generate database schema code (Drizzle)
    */
   private async generateSchemaCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
-    let schemaCode = `\n// ${blueprint.moduleName} Schema\n`;
-    
+    const plan = planRelationships(blueprint);
+    const coreImports = new Set(["pgTable", "serial", "varchar", "text", "integer", "boolean", "timestamp", "index"]);
+    if (plan.joinTables.length > 0) {
+      coreImports.add("primaryKey");
+    }
+
+    let tableCode = '';
     for (const entity of blueprint.entities) {
-      schemaCode += `export const ${entity.tableName} = pgTable("${entity.tableName}", {\n`;
+      // Enum types are declared before the table that uses them
+      for (const field of entity.fields.filter(f => f.type === 'enum')) {
+        coreImports.add('pgEnum');
+        const values = field.enumValues!.map(value => JSON.stringify(value)).join(', ');
+        tableCode += `export const ${enumIdentifier(entity, field)} = pgEnum("${enumTypeName(entity, field)}", [${values}]);\n\n`;
+      }
+
+      tableCode += `export const ${entity.tableName} = pgTable("${entity.tableName}", {\n`;
       
-      for (const field of entity.fields) {
-        const typeMapping: any = {
-          'serial': 'serial',
-          'varchar': `varchar`,
-          'text': 'text',
-          'integer': 'integer',
-          'boolean': 'boolean',
-          'timestamp': 'timestamp',
-        };
+      const refinements: string[] = [];
+      for (const field of entityFields(entity, plan)) {
+        const column = columnBuilder(entity, field);
+        coreImports.add(column.builder);
+        let fieldDef = `  ${field.name}: ${column.code}`;
         
-        let fieldDef = `  ${field.name}: ${typeMapping[field.type] || 'text'}("${field.name}")`;
-        
-        if (field.name === 'id' && field.type === 'serial') {
-          fieldDef += '.primaryKey()';
+        if (field.array) {
+          fieldDef += '.array()';
         }
-        if (field.length) {
-          fieldDef = `  ${field.name}: varchar("${field.name}", { length: ${field.length} })`;
+        if (field.name === 'id') {
+          fieldDef += '.primaryKey()';
         }
         if (field.required && field.name !== 'id') {
           fieldDef += '.notNull()';
@@ -190,21 +461,114 @@ Return ONLY valid JSON, no markdown or explanation.`;
         if (field.default) {
           fieldDef += `.default(${field.default})`;
         }
-        if (field.type === 'timestamp' && !field.default) {
+        if (field.type === 'timestamp' && !field.default && !field.array) {
           fieldDef += '.defaultNow()';
         }
+
+        const refinement = insertRefinement(field);
+        if (refinement) {
+          refinements.push(`  ${field.name}: ${refinement},\n`);
+        }
+
+        const foreignKey = findForeignKey(plan, entity, field.name);
+        if (foreignKey) {
+          const onDelete = field.required ? 'cascade' : 'set null';
+          fieldDef += `.references(() => ${foreignKey.target.identifier}.id, { onDelete: "${onDelete}" })`;
+        }
         
-        schemaCode += fieldDef + ',\n';
+        tableCode += fieldDef + ',\n';
+
+        // Every generated table is scoped to a school
+        if (field.name === 'id') {
+          tableCode += `  ${TENANT_FIELD}: integer("${TENANT_COLUMN}").notNull().references(() => schools.id, { onDelete: "cascade" }),\n`;
+        }
       }
       
-      schemaCode += `});\n\n`;
+      tableCode += `}, (table) => [\n`;
+      tableCode += `  index("${tenantIndexName(entity.tableName)}").on(table.${TENANT_FIELD}),\n`;
+      tableCode += `]);\n\n`;
       
-      // Add Zod schemas
-      schemaCode += `export const insert${entity.name}Schema = createInsertSchema(${entity.tableName}).omit({\n`;
-      schemaCode += `  id: true,\n`;
-      schemaCode += `});\n\n`;
-      schemaCode += `export type Insert${entity.name} = z.infer<typeof insert${entity.name}Schema>;\n`;
-      schemaCode += `export type ${entity.name} = typeof ${entity.tableName}.$inferSelect;\n\n`;
+      // Add Zod schemas with the format and validation checks of each column
+      const refine = refinements.length > 0 ? `, {\n${refinements.join('')}}` : '';
+      tableCode += `export const insert${entity.name}Schema = createInsertSchema(${entity.tableName}${refine}).omit({\n`;
+      tableCode += `  id: true,\n`;
+      tableCode += `});\n\n`;
+      tableCode += `export type Insert${entity.name} = z.infer<typeof insert${entity.name}Schema>;\n`;
+      tableCode += `export type ${entity.name} = typeof ${entity.tableName}.$inferSelect;\n\n`;
+      tableCode += crossFieldRulesCode(entity) ?? '';
+    }
+
+    for (const { left, right } of plan.joinTables) {
+      for (const end of [left, right]) {
+        coreImports.add(columnBuilder(undefined, { name: end.field, ...end.target.keyField, required: true }).builder);
+      }
+    }
+
+    let schemaCode = `import { ${Array.from(coreImports).join(", ")} } from "drizzle-orm/pg-core";\n`;
+    schemaCode += `import { relations } from "drizzle-orm";\n`;
+    schemaCode += `import { createInsertSchema } from "drizzle-zod";\n`;
+    schemaCode += `import { z } from "zod";\n`;
+    schemaCode += `\n// ${blueprint.moduleName} Schema\n`;
+    schemaCode += tableCode;
+
+    // Join tables for many-to-many relationships
+    for (const joinTable of plan.joinTables) {
+      const { left, right } = joinTable;
+      schemaCode += `export const ${joinTable.tableName} = pgTable("${joinTable.tableName}", {\n`;
+      for (const end of [left, right]) {
+        const column = columnBuilder(undefined, { name: end.field, ...end.target.keyField, required: true });
+        schemaCode += `  ${end.field}: ${column.code}.notNull().references(() => ${end.target.identifier}.id, { onDelete: "cascade" }),\n`;
+      }
+      schemaCode += `}, (table) => [\n`;
+      schemaCode += `  primaryKey({ columns: [table.${left.field}, table.${right.field}] }),\n`;
+      schemaCode += `]);\n\n`;
+    }
+
+    // Relations, in the same shape as schoolsRelations/usersRelations
+    for (const entity of blueprint.entities) {
+      const table = entity.tableName;
+      let relationCode = `  school: one(schools, {\n`;
+      relationCode += `    fields: [${table}.${TENANT_FIELD}],\n`;
+      relationCode += `    references: [schools.id],\n`;
+      relationCode += `  }),\n`;
+
+      for (const fk of plan.foreignKeys.filter(fk => fk.owner === entity)) {
+        const name = fk.field.name.endsWith('Id') && fk.field.name.length > 2
+          ? fk.field.name.slice(0, -2)
+          : `${fk.field.name}Record`;
+        relationCode += `  ${name}: one(${fk.target.identifier}, {\n`;
+        relationCode += `    fields: [${table}.${fk.field.name}],\n`;
+        relationCode += `    references: [${fk.target.identifier}.id],\n`;
+        if (fk.relationName) {
+          relationCode += `    relationName: "${fk.relationName}",\n`;
+        }
+        relationCode += `  }),\n`;
+      }
+
+      for (const fk of plan.foreignKeys.filter(fk => fk.target.entity === entity)) {
+        const name = fk.relationName ? relationKey(fk.relationName) : relationKey(fk.owner.tableName);
+        const config = fk.relationName ? `, { relationName: "${fk.relationName}" }` : '';
+        relationCode += `  ${name}: many(${fk.owner.tableName}${config}),\n`;
+      }
+
+      for (const joinTable of plan.joinTables) {
+        if (joinTable.left.target.entity === entity || joinTable.right.target.entity === entity) {
+          relationCode += `  ${relationKey(joinTable.tableName)}: many(${joinTable.tableName}),\n`;
+        }
+      }
+
+      schemaCode += `export const ${table}Relations = relations(${table}, ({ one, many }) => ({\n${relationCode}}));\n\n`;
+    }
+
+    for (const joinTable of plan.joinTables) {
+      let relationCode = '';
+      for (const end of [joinTable.left, joinTable.right]) {
+        relationCode += `  ${end.field.slice(0, -2)}: one(${end.target.identifier}, {\n`;
+        relationCode += `    fields: [${joinTable.tableName}.${end.field}],\n`;
+        relationCode += `    references: [${end.target.identifier}.id],\n`;
+        relationCode += `  }),\n`;
+      }
+      schemaCode += `export const ${joinTable.tableName}Relations = relations(${joinTable.tableName}, ({ one }) => ({\n${relationCode}}));\n\n`;
     }
 
     await storage.createArtifact({
@@ -218,43 +582,155 @@ Return ONLY valid JSON, no markdown or explanation.`;
   }
 
   /**
-   * Generate storage layer code
+   * Generate migration SQL for the blueprint's tables against the current database
+   */
+  private async generateMigrationCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
+    const joinTables = planRelationships(blueprint).joinTables;
+    const existingColumns = await loadExistingColumns([
+      ...blueprint.entities.map(e => e.tableName),
+      ...joinTables.map(t => t.tableName),
+    ]);
+    const existingEnums = await loadExistingEnums(blueprintEnumTypes(blueprint));
+    const migration = buildMigration(blueprint, existingColumns, existingEnums);
+    if (!migration.up) return;
+
+    const migrationCode = formatMigration(blueprint.moduleName, migration);
+    const statementCount = migration.up.split('\n\n').length;
+
+    await storage.createArtifact({
+      jobId,
+      filePath: `migrations/${blueprint.moduleName}.sql`,
+      fileType: "migration",
+      generatedCode: migrationCode,
+      diffPreview: `${statementCount} SQL statement(s) to run on deploy`,
+      isApplied: false,
+    });
+  }
+
+  /**
+   * Generate storage layer code (IStorage interface members and DatabaseStorage methods)
    */
   private async generateStorageCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
-    let storageCode = `\n// ${blueprint.moduleName} Storage Operations\n`;
+    const plan = planRelationships(blueprint);
+    const schemaImports = blueprint.entities.flatMap(entity => [
+      entity.tableName,
+      `type ${entity.name}`,
+      `type Insert${entity.name}`,
+    ]);
+    for (const joinTable of plan.joinTables) {
+      schemaImports.push(joinTable.tableName);
+      for (const end of [joinTable.left, joinTable.right]) {
+        if (!schemaImports.includes(end.target.identifier)) {
+          schemaImports.push(end.target.identifier);
+        }
+      }
+    }
+
+    let storageCode = `import { ${schemaImports.join(", ")} } from "@shared/schema";\n`;
+    storageCode += `import { eq, desc, and } from "drizzle-orm";\n\n`;
+
+    let interfaceCode = `  // ${blueprint.moduleName} operations\n`;
+    let classCode = `  // ${blueprint.moduleName} operations\n`;
     
     for (const entity of blueprint.entities) {
       const entityNameLower = entity.name.charAt(0).toLowerCase() + entity.name.slice(1);
+      const table = entity.tableName;
+      // Rows are filtered by school; schoolId undefined = super admin
+      const scope = `and(eq(${table}.id, id), schoolId !== undefined ? eq(${table}.${TENANT_FIELD}, schoolId) : undefined)`;
+
+      interfaceCode += `  get${entity.name}s(schoolId?: number): Promise<${entity.name}[]>;\n`;
+      interfaceCode += `  get${entity.name}(id: number, schoolId?: number): Promise<${entity.name} | undefined>;\n`;
+      interfaceCode += `  create${entity.name}(data: Insert${entity.name}): Promise<${entity.name}>;\n`;
+      interfaceCode += `  update${entity.name}(id: number, data: Partial<Insert${entity.name}>, schoolId?: number): Promise<${entity.name} | undefined>;\n`;
+      interfaceCode += `  delete${entity.name}(id: number, schoolId?: number): Promise<boolean>;\n`;
       
       // Get all
-      storageCode += `async get${entity.name}s(): Promise<${entity.name}[]> {\n`;
-      storageCode += `  return await db.select().from(${entity.tableName}).orderBy(desc(${entity.tableName}.id));\n`;
-      storageCode += `}\n\n`;
+      classCode += `  async get${entity.name}s(schoolId?: number): Promise<${entity.name}[]> {\n`;
+      classCode += `    const conditions = schoolId !== undefined ? [eq(${table}.${TENANT_FIELD}, schoolId)] : [];\n`;
+      classCode += `    return await db.select().from(${table}).where(and(...conditions)).orderBy(desc(${table}.id));\n`;
+      classCode += `  }\n\n`;
       
       // Get by ID
-      storageCode += `async get${entity.name}(id: number): Promise<${entity.name} | undefined> {\n`;
-      storageCode += `  const [${entityNameLower}] = await db.select().from(${entity.tableName}).where(eq(${entity.tableName}.id, id));\n`;
-      storageCode += `  return ${entityNameLower};\n`;
-      storageCode += `}\n\n`;
+      classCode += `  async get${entity.name}(id: number, schoolId?: number): Promise<${entity.name} | undefined> {\n`;
+      classCode += `    const [${entityNameLower}] = await db.select().from(${table}).where(${scope});\n`;
+      classCode += `    return ${entityNameLower};\n`;
+      classCode += `  }\n\n`;
       
       // Create
-      storageCode += `async create${entity.name}(data: Insert${entity.name}): Promise<${entity.name}> {\n`;
-      storageCode += `  const [${entityNameLower}] = await db.insert(${entity.tableName}).values(data).returning();\n`;
-      storageCode += `  return ${entityNameLower};\n`;
-      storageCode += `}\n\n`;
+      classCode += `  async create${entity.name}(data: Insert${entity.name}): Promise<${entity.name}> {\n`;
+      classCode += `    const [${entityNameLower}] = await db.insert(${table}).values(data).returning();\n`;
+      classCode += `    return ${entityNameLower};\n`;
+      classCode += `  }\n\n`;
       
       // Update
-      storageCode += `async update${entity.name}(id: number, data: Partial<Insert${entity.name}>): Promise<${entity.name}> {\n`;
-      storageCode += `  const [${entityNameLower}] = await db.update(${entity.tableName}).set(data).where(eq(${entity.tableName}.id, id)).returning();\n`;
-      storageCode += `  return ${entityNameLower};\n`;
-      storageCode += `}\n\n`;
+      classCode += `  async update${entity.name}(id: number, data: Partial<Insert${entity.name}>, schoolId?: number): Promise<${entity.name} | undefined> {\n`;
+      classCode += `    const [${entityNameLower}] = await db.update(${table}).set(data).where(${scope}).returning();\n`;
+      classCode += `    return ${entityNameLower};\n`;
+      classCode += `  }\n\n`;
       
       // Delete
-      storageCode += `async delete${entity.name}(id: number): Promise<void> {\n`;
-      storageCode += `  await db.delete(${entity.tableName}).where(eq(${entity.tableName}.id, id));\n`;
-      storageCode += `}\n\n`;
+      classCode += `  async delete${entity.name}(id: number, schoolId?: number): Promise<boolean> {\n`;
+      classCode += `    const deleted = await db.delete(${table}).where(${scope}).returning();\n`;
+      classCode += `    return deleted.length > 0;\n`;
+      classCode += `  }\n\n`;
+    }
+
+    // Records on the "many" side of a relationship, by the record they reference
+    for (const fk of plan.foreignKeys) {
+      const { owner, field } = fk;
+      const table = owner.tableName;
+      const method = `get${owner.name}sBy${field.name.charAt(0).toUpperCase() + field.name.slice(1)}`;
+      const signature = `${method}(${field.name}: ${fieldTsType(field)}, schoolId?: number): Promise<${owner.name}[]>`;
+
+      interfaceCode += `  ${signature};\n`;
+      classCode += `  async ${signature} {\n`;
+      classCode += `    return await db.select().from(${table}).where(and(\n`;
+      classCode += `      eq(${table}.${field.name}, ${field.name}),\n`;
+      classCode += `      schoolId !== undefined ? eq(${table}.${TENANT_FIELD}, schoolId) : undefined\n`;
+      classCode += `    )).orderBy(desc(${table}.id));\n`;
+      classCode += `  }\n\n`;
+    }
+
+    // Records linked through a many-to-many join table, loaded from each side defined by this module
+    for (const joinTable of plan.joinTables) {
+      const ends = [
+        [joinTable.left, joinTable.right],
+        [joinTable.right, joinTable.left],
+      ];
+      for (const [from, to] of ends) {
+        const fromEntity = from.target.entity;
+        // Self-referencing links are only loaded in the left-to-right direction
+        if (!fromEntity || (from === joinTable.right && from.target.tableName === to.target.tableName)) continue;
+
+        const toName = to.target.entity?.name ?? to.target.singular.charAt(0).toUpperCase() + to.target.singular.slice(1);
+        const method = `get${toName}sFor${fromEntity.name}`;
+        const keyType = fieldTsType({ name: from.field, ...from.target.keyField, required: true });
+        const signature = `${method}(${from.field}: ${keyType}, schoolId?: number): Promise<${to.target.entity ? toName : `(${to.target.typeName})`}[]>`;
+        const related = to.target.identifier;
+        const joined = joinTable.tableName;
+
+        interfaceCode += `  ${signature};\n`;
+        classCode += `  async ${signature} {\n`;
+        // Scope by the related records' school, or by the school of the record the links belong to
+        const scopeTable = to.target.entity ? related : fromEntity.tableName;
+
+        classCode += `    const rows = await db.select({ related: ${related} }).from(${joined})\n`;
+        classCode += `      .innerJoin(${related}, eq(${joined}.${to.field}, ${related}.id))\n`;
+        if (!to.target.entity) {
+          classCode += `      .innerJoin(${scopeTable}, eq(${joined}.${from.field}, ${scopeTable}.id))\n`;
+        }
+        classCode += `      .where(and(\n`;
+        classCode += `        eq(${joined}.${from.field}, ${from.field}),\n`;
+        classCode += `        schoolId !== undefined ? eq(${scopeTable}.${TENANT_FIELD}, schoolId) : undefined\n`;
+        classCode += `      ));\n`;
+        classCode += `    return rows.map(row => row.related);\n`;
+        classCode += `  }\n\n`;
+      }
     }
 
+    storageCode += `export interface IStorage {\n${interfaceCode}}\n\n`;
+    storageCode += `export class DatabaseStorage implements IStorage {\n${classCode.trimEnd()}\n}\n`;
+
     await storage.createArtifact({
       jobId,
       filePath: "server/storage.ts",
@@ -269,50 +745,104 @@ Return ONLY valid JSON, no markdown or explanation.`;
    * Generate API routes
    */
   private async generateRouteCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
-    let routeCode = `\n// ${blueprint.moduleName} API Routes\n`;
+    const schemaImports = blueprint.entities.flatMap(entity =>
+      entity.rules?.length ? [`insert${entity.name}Schema`, `${entity.tableName}Rules`] : [`insert${entity.name}Schema`]
+    );
+
+    let routeCode = `import type { Express } from "express";\n`;
+    routeCode += `import type { Server } from "http";\n`;
+    routeCode += `import { storage } from "./storage";\n`;
+    routeCode += `import { isAuthenticated, isSuperAdmin } from "./auth/passwordAuth";\n`;
+    const tenantImports = expandRoutes(blueprint).some(({ route }) => route.allowedRoles)
+      ? 'attachTenantContext, requireRole, requireTenantContext'
+      : 'attachTenantContext, requireTenantContext';
+    routeCode += `import { ${tenantImports} } from "./tenantMiddleware";\n`;
+    routeCode += `import { ZodError } from "zod";\n`;
+    routeCode += `import { ${schemaImports.join(", ")} } from "@shared/schema";\n\n`;
+    routeCode += `export async function registerRoutes(app: Express): Promise<Server> {\n`;
+    routeCode += `  // ${blueprint.moduleName} API Routes\n`;
     
-    for (const route of blueprint.apiRoutes) {
-      const middleware = route.requiresAuth ? ', isAuthenticated' : '';
+    for (const { route, entity } of expandRoutes(blueprint)) {
+      // Generated data is tenant-scoped, so every route needs an authenticated school context
+      const middleware = ', isAuthenticated, attachTenantContext, requireTenantContext';
       const superAdminMiddleware = route.requiresSuperAdmin ? ', isSuperAdmin' : '';
+      const roleMiddleware = route.allowedRoles ? `, requireRole(${route.allowedRoles.map(role => `'${role}'`).join(', ')})` : '';
+      // Item routes end in a parameter, whatever it is called
+      const idParam = route.path.match(/\/:([A-Za-z0-9_]+)$/)?.[1];
+      const owner = route.ownRecordsOnly ? entity.ownerField : undefined;
       
-      routeCode += `app.${route.method.toLowerCase()}('${route.path}'${middleware}${superAdminMiddleware}, async (req: any, res) => {\n`;
-      routeCode += `  try {\n`;
-      routeCode += `    // ${route.description}\n`;
+      routeCode += `  app.${route.method.toLowerCase()}('${route.path}'${middleware}${superAdminMiddleware}${roleMiddleware}, async (req: any, res) => {\n`;
+      routeCode += `    try {\n`;
+      routeCode += `      // ${route.description}\n`;
+      routeCode += `      const schoolId = req.schoolId;\n`;
+      if (idParam) {
+        routeCode += `      const id = parseInt(req.params.${idParam});\n`;
+      }
+      if (owner) {
+        routeCode += `      // ${route.ownRecordsOnly!.join(', ')} users only reach their own records\n`;
+        routeCode += `      const ownerId: string | undefined = [${route.ownRecordsOnly!.map(role => `'${role}'`).join(', ')}].includes(req.userRole) ? req.user.claims.sub : undefined;\n`;
+      }
+      // Other users' records are reported as missing rather than forbidden
+      const notOwned = (row: string) => owner ? ` || (ownerId !== undefined && ${row}.${owner} !== ownerId)` : '';
       
-      if (route.method === 'GET' && route.path.includes(':id')) {
-        const entity = blueprint.entities[0];
-        routeCode += `    const id = parseInt(req.params.id);\n`;
-        routeCode += `    const data = await storage.get${entity.name}(id);\n`;
-        routeCode += `    if (!data) return res.status(404).json({ message: 'Not found' });\n`;
-        routeCode += `    res.json(data);\n`;
+      if (route.method === 'GET' && idParam) {
+        routeCode += `      const data = await storage.get${entity.name}(id, schoolId);\n`;
+        routeCode += `      if (!data${notOwned('data')}) return res.status(404).json({ message: 'Not found' });\n`;
+        routeCode += `      res.json(data);\n`;
       } else if (route.method === 'GET') {
-        const entity = blueprint.entities[0];
-        routeCode += `    const data = await storage.get${entity.name}s();\n`;
-        routeCode += `    res.json(data);\n`;
+        if (owner) {
+          routeCode += `      const data = ownerId !== undefined\n`;
+          routeCode += `        ? await storage.get${entity.name}sBy${upperFirst(owner)}(ownerId, schoolId)\n`;
+          routeCode += `        : await storage.get${entity.name}s(schoolId);\n`;
+        } else {
+          routeCode += `      const data = await storage.get${entity.name}s(schoolId);\n`;
+        }
+        routeCode += `      res.json(data);\n`;
       } else if (route.method === 'POST') {
-        const entity = blueprint.entities[0];
-        routeCode += `    const validated = insert${entity.name}Schema.parse(req.body);\n`;
-        routeCode += `    const data = await storage.create${entity.name}(validated);\n`;
-        routeCode += `    res.json(data);\n`;
-      } else if (route.method === 'PATCH') {
-        const entity = blueprint.entities[0];
-        routeCode += `    const id = parseInt(req.params.id);\n`;
-        routeCode += `    const data = await storage.update${entity.name}(id, req.body);\n`;
-        routeCode += `    res.json(data);\n`;
-      } else if (route.method === 'DELETE') {
-        const entity = blueprint.entities[0];
-        routeCode += `    const id = parseInt(req.params.id);\n`;
-        routeCode += `    await storage.delete${entity.name}(id);\n`;
-        routeCode += `    res.json({ success: true });\n`;
+        const schema = entity.rules?.length ? `insert${entity.name}Schema.superRefine(${entity.tableName}Rules)` : `insert${entity.name}Schema`;
+        const ownerValue = owner ? `, ${owner}: ownerId ?? req.body.${owner}` : '';
+        routeCode += `      // Super admins have no school context and must name the target school\n`;
+        routeCode += `      const validated = ${schema}.parse({ ...req.body${ownerValue}, ${TENANT_FIELD}: schoolId ?? req.body.${TENANT_FIELD} });\n`;
+        routeCode += `      const data = await storage.create${entity.name}(validated);\n`;
+        routeCode += `      res.json(data);\n`;
+      } else if (route.method === 'PATCH' && idParam) {
+        const body = owner ? `ownerId !== undefined ? { ...req.body, ${owner}: ownerId } : req.body` : 'req.body';
+        routeCode += `      const updates = insert${entity.name}Schema.partial().omit({ ${TENANT_FIELD}: true }).parse(${body});\n`;
+        if (entity.rules?.length || owner) {
+          routeCode += `      const existing = await storage.get${entity.name}(id, schoolId);\n`;
+          routeCode += `      if (!existing${notOwned('existing')}) return res.status(404).json({ message: 'Not found' });\n`;
+        }
+        if (entity.rules?.length) {
+          routeCode += `      // Cross-field rules are checked against the row as it will be after the update\n`;
+          routeCode += `      insert${entity.name}Schema.partial().superRefine(${entity.tableName}Rules).parse({ ...existing, ...updates });\n`;
+        }
+        routeCode += `      const data = await storage.update${entity.name}(id, updates, schoolId);\n`;
+        routeCode += `      if (!data) return res.status(404).json({ message: 'Not found' });\n`;
+        routeCode += `      res.json(data);\n`;
+      } else if (route.method === 'DELETE' && idParam) {
+        if (owner) {
+          routeCode += `      const existing = await storage.get${entity.name}(id, schoolId);\n`;
+          routeCode += `      if (!existing${notOwned('existing')}) return res.status(404).json({ message: 'Not found' });\n`;
+        }
+        routeCode += `      const deleted = await storage.delete${entity.name}(id, schoolId);\n`;
+        routeCode += `      if (!deleted) return res.status(404).json({ message: 'Not found' });\n`;
+        routeCode += `      res.json({ success: true });\n`;
+      } else {
+        routeCode += `      res.status(501).json({ message: 'Not implemented' });\n`;
       }
       
-      routeCode += `  } catch (error: any) {\n`;
-      routeCode += `    console.error('Error:', error);\n`;
-      routeCode += `    res.status(500).json({ message: error.message });\n`;
-      routeCode += `  }\n`;
-      routeCode += `});\n\n`;
+      routeCode += `    } catch (error: any) {\n`;
+      routeCode += `      if (error instanceof ZodError) {\n`;
+      routeCode += `        return res.status(400).json({ message: 'Validation failed', errors: error.flatten().fieldErrors });\n`;
+      routeCode += `      }\n`;
+      routeCode += `      console.error('Error:', error);\n`;
+      routeCode += `      res.status(500).json({ message: error.message });\n`;
+      routeCode += `    }\n`;
+      routeCode += `  });\n\n`;
     }
 
+    routeCode = routeCode.trimEnd() + `\n}\n`;
+
     await storage.createArtifact({
       jobId,
       filePath: "server/routes.ts",
@@ -324,108 +854,549 @@ Return ONLY valid JSON, no markdown or explanation.`;
   }
 
   /**
-   * Generate frontend components
+   * Generate a page for every entity and the module's navigation manifest
    */
   private async generateFrontendCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
-    const mainPage = blueprint.uiComponents.find(c => c.type === 'page');
-    if (!mainPage) return;
+    const pages = entityPages(blueprint);
+    const plan = planRelationships(blueprint);
 
-    const entity = blueprint.entities[0];
-    const entityNameLower = entity.name.charAt(0).toLowerCase() + entity.name.slice(1);
-    
-    let componentCode = `import { useQuery, useMutation } from "@tanstack/react-query";
+    for (const { page, entity } of pages) {
+      const entityNameLower = entity.name.charAt(0).toLowerCase() + entity.name.slice(1);
+      const basePath = entityBasePath(blueprint, entity);
+      const fields = formFields(entity, plan);
+      const uiImports = formImports(fields)
+        .map(([names, module]) => `import { ${names.join(", ")} } from "${module}";`)
+        .join("\n");
+
+      const formSchema = entity.rules?.length
+        ? `insert${entity.name}Schema.omit({ ${TENANT_FIELD}: true }).superRefine(${entity.tableName}Rules)`
+        : `insert${entity.name}Schema.omit({ ${TENANT_FIELD}: true })`;
+      const schemaImports = entity.rules?.length ? `insert${entity.name}Schema, ${entity.tableName}Rules` : `insert${entity.name}Schema`;
+      const preflight = fields.map(formPreflightCode).filter(Boolean);
+      const jsonHelper = preflight.length === 0 ? '' : `
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+`;
+
+      const dateTimeHelper = !fields.some(field => field.type === "timestamp" && !field.array) ? '' : `
+// datetime-local inputs take local time without a time zone
+function toDateTimeInput(value: Date | string): string {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+`;
+
+      // JSON values are only shown in the edit form
+      const tableFields = fields.filter(field => field.type !== "jsonb").slice(0, MAX_TABLE_COLUMNS);
+      const columns = tableFields.length > 0
+        ? tableFields.map(field => {
+            const flag = field.array ? '' : field.type === "integer" || field.type === "numeric" ? ', numeric: true' : field.type === "timestamp" ? ', timestamp: true' : '';
+            return `  { key: "${field.name}", label: "${fieldLabel(field)}"${flag} },`;
+          })
+        : [`  { key: "id", label: "ID", numeric: true },`];
+      const labelLower = humanize(entity.name).toLowerCase();
+
+      let componentCode = `import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { useForm, type FieldErrors, type Resolver } from "react-hook-form";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+${uiImports}
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Loader2, Pencil, Plus, Search, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { ${schemaImports}, type ${entity.name} } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+const emptyForm = ${emptyFormCode(fields)};
+type FormValues = typeof emptyForm;
+
+const formSchema = ${formSchema};
+
+// Table columns; every column is searched and sortable
+const columns: Array<{ key: keyof ${entity.name}; label: string; numeric?: boolean; timestamp?: boolean }> = [
+${columns.join("\n")}
+];
+
+type SortState = { key: keyof ${entity.name}; direction: "asc" | "desc" };
+
+// Form inputs hold strings; convert them to the types the API validates
+function toPayload(form: FormValues, empty: null | undefined = undefined) {
+  return {
+${fields.map(field => `    ${field.name}: ${formPayloadCode(field)},`).join("\n")}
+  };
+}
+
+function toForm(item: ${entity.name}): FormValues {
+  return {
+${fields.map(field => `    ${field.name}: ${formValueCode(field)},`).join("\n")}
+  };
+}
+${jsonHelper}${dateTimeHelper}
+function formatCell(value: unknown, timestamp?: boolean): string {
+  if (value === null || value === undefined || value === "") return "-";
+  if (timestamp) return new Date(value as string).toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// Empty values sort last
+function compareValues(a: unknown, b: unknown, numeric?: boolean): number {
+  if (a === null || a === undefined) return b === null || b === undefined ? 0 : 1;
+  if (b === null || b === undefined) return -1;
+  if (numeric) return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
 
-export default function ${mainPage.name}() {
+// The converted values go through the same schema the server uses
+const resolver: Resolver<FormValues> = async (values) => {
+  const errors: Record<string, { type: string; message: string }> = {};
+${preflight.length > 0 ? preflight.join("\n") + "\n" : ""}  if (Object.keys(errors).length === 0) {
+    const result = formSchema.safeParse(toPayload(values));
+    for (const issue of result.success ? [] : result.error.issues) {
+      errors[String(issue.path[0])] ??= { type: issue.code, message: issue.message };
+    }
+  }
+  return Object.keys(errors).length === 0 ? { values, errors: {} } : { values: {}, errors: errors as FieldErrors<FormValues> };
+};
+
+export default function ${page.name}() {
   const { toast } = useToast();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<${entity.name} | null>(null);
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [page, setPage] = useState(1);
+  const form = useForm<FormValues>({ resolver, defaultValues: emptyForm });
 
-  const { data: items, isLoading } = useQuery({
-    queryKey: ['${entity.tableName}'],
+  const { data: items, isLoading } = useQuery<${entity.name}[]>({
+    queryKey: ['${basePath}'],
   });
 
-  const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return await apiRequest('/api/${entity.tableName}', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matches = (items ?? []).filter(item =>
+      !query || columns.some(column => formatCell(item[column.key], column.timestamp).toLowerCase().includes(query))
+    );
+    if (!sort) return matches;
+
+    const numeric = columns.find(column => column.key === sort.key)?.numeric;
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return [...matches].sort((a, b) => direction * compareValues(a[sort.key], b[sort.key], numeric));
+  }, [items, search, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = rows.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  // Ascending, then descending, then unsorted
+  const toggleSort = (key: keyof ${entity.name}) => {
+    setSort(current =>
+      current?.key !== key ? { key, direction: "asc" } : current.direction === "asc" ? { key, direction: "desc" } : null
+    );
+  };
+
+  const openForm = (item: ${entity.name} | null) => {
+    setEditing(item);
+    form.reset(item ? toForm(item) : emptyForm);
+    setIsFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      return editing
+        ? await apiRequest('PATCH', \`${basePath}/\${editing.id}\`, toPayload(values, null))
+        : await apiRequest('POST', '${basePath}', toPayload(values));
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['${entity.tableName}'] });
-      toast({ title: "Success", description: "${entity.name} created successfully" });
+      queryClient.invalidateQueries({ queryKey: ['${basePath}'] });
+      toast({ title: "Success", description: editing ? "${entity.name} updated successfully" : "${entity.name} created successfully" });
       setIsFormOpen(false);
     },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      return await apiRequest(\`/api/${entity.tableName}/\${id}\`, {
-        method: 'DELETE',
-      });
+    mutationFn: async (id: ${entity.name}["id"]) => {
+      return await apiRequest('DELETE', \`${basePath}/\${id}\`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['${entity.tableName}'] });
+      queryClient.invalidateQueries({ queryKey: ['${basePath}'] });
       toast({ title: "Success", description: "${entity.name} deleted successfully" });
     },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
   });
 
-  if (isLoading) {
-    return <div className="p-6">Loading...</div>;
-  }
-
   return (
-    <div className="container mx-auto p-6">
-      <div className="flex justify-between items-center mb-6">
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-3xl font-bold">${blueprint.moduleName}</h1>
-          <p className="text-muted-foreground">${blueprint.description}</p>
+          <h1 className="text-3xl font-bold text-foreground">${humanize(entity.name)}</h1>
+          <p className="text-muted-foreground mt-1">${page.description}</p>
         </div>
-        <Button onClick={() => setIsFormOpen(true)} data-testid="button-create-${entityNameLower}">
+        <Button onClick={() => openForm(null)} data-testid="button-create-${entityNameLower}">
           <Plus className="w-4 h-4 mr-2" />
-          Add ${entity.name}
+          Add ${humanize(entity.name)}
         </Button>
       </div>
 
-      <div className="grid gap-4">
-        {items?.map((item: any) => (
-          <Card key={item.id} data-testid={\`card-${entityNameLower}-\${item.id}\`}>
-            <CardHeader>
-              <CardTitle>{item.name || '${entity.name} #' + item.id}</CardTitle>
-              <CardDescription>{item.description || ''}</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Button 
-                variant="destructive" 
-                onClick={() => deleteMutation.mutate(item.id)}
-                data-testid={\`button-delete-${entityNameLower}-\${item.id}\`}
-              >
-                Delete
-              </Button>
-            </CardContent>
-          </Card>
-        ))}
+      <div className="relative max-w-sm">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setPage(1);
+          }}
+          className="pl-9"
+          data-testid="input-search-${entityNameLower}"
+        />
       </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center p-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </CardContent>
+        </Card>
+      ) : rows.length > 0 ? (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {columns.map((column) => (
+                    <TableHead key={column.key}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="-ml-3"
+                        onClick={() => toggleSort(column.key)}
+                        data-testid={\`button-sort-\${column.key}\`}
+                      >
+                        {column.label}
+                        {sort?.key !== column.key ? (
+                          <ArrowUpDown className="w-4 h-4 ml-2 text-muted-foreground" />
+                        ) : sort.direction === "asc" ? (
+                          <ArrowUp className="w-4 h-4 ml-2" />
+                        ) : (
+                          <ArrowDown className="w-4 h-4 ml-2" />
+                        )}
+                      </Button>
+                    </TableHead>
+                  ))}
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageRows.map((item) => (
+                  <TableRow key={item.id} data-testid={\`row-${entityNameLower}-\${item.id}\`}>
+                    {columns.map((column) => (
+                      <TableCell key={column.key} className="max-w-xs truncate">
+                        {formatCell(item[column.key], column.timestamp)}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openForm(item)}
+                        data-testid={\`button-edit-${entityNameLower}-\${item.id}\`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteMutation.mutate(item.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={\`button-delete-${entityNameLower}-\${item.id}\`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12">
+            <p className="text-muted-foreground">
+              {search ? "No ${labelLower} records match your search" : "No ${labelLower} records yet"}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {rows.length > PAGE_SIZE && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {(currentPage - 1) * PAGE_SIZE + 1}-{Math.min(currentPage * PAGE_SIZE, rows.length)} of {rows.length}
+          </p>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 1}
+              data-testid="button-previous-page"
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <span className="text-sm">Page {currentPage} of {pageCount}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage === pageCount}
+              data-testid="button-next-page"
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto" data-testid="form-${entityNameLower}">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit ${humanize(entity.name)}" : "New ${humanize(entity.name)}"}</DialogTitle>
+            <DialogDescription>
+              {editing ? "Change the details of this ${labelLower} record" : "Fill in the details of the new ${labelLower} record"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))} className="space-y-4">
+${fields.map(field => formInputCode(field, "              ")).join("\n")}
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-submit-${entityNameLower}">
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
 `;
 
+
+      await storage.createArtifact({
+        jobId,
+        filePath: `client/src/${modulePagePath(blueprint, page)}.tsx`,
+        fileType: "component",
+        generatedCode: componentCode,
+        diffPreview: `+ New file: ${page.name.toLowerCase()}.tsx (${componentCode.split('\n').length} lines)`,
+        isApplied: false,
+      });
+    }
+
+    // Sidebar entries for the module's pages, grouped under the module
+    const moduleIdentifier = blueprint.moduleName.charAt(0).toLowerCase() + blueprint.moduleName.slice(1);
+    let manifestCode = `import type { GeneratedModule } from "@/lib/generatedModules";\n`;
+    for (const { page } of pages) {
+      manifestCode += `import ${page.name} from "@/${modulePagePath(blueprint, page)}";\n`;
+    }
+    manifestCode += `\nconst ${moduleIdentifier}: GeneratedModule = {\n`;
+    manifestCode += `  name: "${blueprint.moduleName}",\n`;
+    manifestCode += `  title: "${humanize(blueprint.moduleName)}",\n`;
+    manifestCode += `  pages: [\n`;
+    for (const { page, entity } of pages) {
+      manifestCode += `    { title: "${humanize(entity.name)}", path: "${page.path}", component: ${page.name} },\n`;
+    }
+    manifestCode += `  ],\n`;
+    manifestCode += `};\n\n`;
+    manifestCode += `export default ${moduleIdentifier};\n`;
+
+    const manifestPath = `client/src/modules/${kebabCase(blueprint.moduleName)}.ts`;
     await storage.createArtifact({
       jobId,
-      filePath: `client/src/pages/${mainPage.name.toLowerCase()}.tsx`,
+      filePath: manifestPath,
       fileType: "component",
-      generatedCode: componentCode,
-      diffPreview: `+ New file: ${mainPage.name.toLowerCase()}.tsx (${componentCode.split('\n').length} lines)`,
+      generatedCode: manifestCode,
+      diffPreview: `+ New file: ${manifestPath.split('/').pop()} (${pages.length} sidebar entries)`,
       isApplied: false,
     });
   }
+
+  /**
+   * Generate the module's API integration tests, which have to pass before it deploys
+   */
+  private async generateTestCode(jobId: number, blueprint: ModuleBlueprint): Promise<void> {
+    const testPath = moduleTestPath(blueprint);
+    await storage.createArtifact({
+      jobId,
+      filePath: testPath,
+      fileType: "test",
+      generatedCode: buildModuleTests(blueprint),
+      diffPreview: `+ New file: ${testPath.split('/').pop()} (API tests for ${blueprint.entities.length} entities)`,
+      isApplied: false,
+    });
+  }
+}
+
+/**
+ * Drizzle column builder call for a field, without modifiers
+ */
+function columnBuilder(entity: EntityDefinition | undefined, field: FieldDefinition): { builder: string; code: string } {
+  switch (field.type) {
+    case 'varchar':
+      return { builder: 'varchar', code: `varchar("${field.name}"${field.length ? `, { length: ${field.length} }` : ''})` };
+    case 'numeric': {
+      const config = field.precision === undefined
+        ? ''
+        : `, { precision: ${field.precision}${field.scale === undefined ? '' : `, scale: ${field.scale}`} }`;
+      return { builder: 'numeric', code: `numeric("${field.name}"${config})` };
+    }
+    case 'enum':
+      return { builder: 'pgEnum', code: `${enumIdentifier(entity!, field)}("${field.name}")` };
+    case 'user':
+      // users.id is a varchar
+      return { builder: 'varchar', code: `varchar("${field.name}")` };
+    default:
+      return { builder: field.type, code: `${field.type}("${field.name}")` };
+  }
+}
+
+/**
+ * createInsertSchema refinement for columns whose JSON representation needs checking or coercion
+ */
+function insertRefinement(field: FieldDefinition): string | undefined {
+  if (field.type === 'timestamp' && !field.array) {
+    return '() => z.coerce.date()';
+  }
+
+  const checks = [...formatChecks(field), ...validationChecks(field)];
+  return checks.length > 0 ? `(schema) => schema${checks.join('')}` : undefined;
+}
+
+// JSON bodies carry dates and decimals as strings
+function formatChecks(field: FieldDefinition): string[] {
+  if (field.array) return [];
+  switch (field.type) {
+    case 'date':
+      return ['.regex(/^\\d{4}-\\d{2}-\\d{2}$/, "Expected a date (YYYY-MM-DD)")'];
+    case 'numeric': {
+      const scale = field.scale ?? 0;
+      const integerDigits = field.precision === undefined ? '+' : `{1,${Math.max(field.precision - scale, 1)}}`;
+      const fraction = field.precision === undefined ? '(\\.\\d+)?' : scale > 0 ? `(\\.\\d{1,${scale}})?` : '';
+      return [`.regex(/^-?\\d${integerDigits}${fraction}$/, "Expected a number${field.precision === undefined ? '' : ` with at most ${scale} decimal places`}")`];
+    }
+    default:
+      return [];
+  }
+}
+
+// The blueprint's validation rules, see fieldValidationSchema
+function validationChecks(field: FieldDefinition): string[] {
+  const validation = field.validation;
+  if (!validation) return [];
+  const message = (fallback: string) => JSON.stringify(validation.message ?? fallback);
+  const checks: string[] = [];
+
+  const unit = field.array ? ' items' : field.type === 'varchar' || field.type === 'text' ? ' characters' : '';
+  if (field.type === 'numeric' && !field.array) {
+    // numeric values are strings, so bounds are checked on the parsed number
+    if (validation.min !== undefined) {
+      checks.push(`.refine((value) => Number(value) >= ${validation.min}, ${message(`Must be at least ${validation.min}`)})`);
+    }
+    if (validation.max !== undefined) {
+      checks.push(`.refine((value) => Number(value) <= ${validation.max}, ${message(`Must be at most ${validation.max}`)})`);
+    }
+  } else {
+    if (validation.min !== undefined) {
+      checks.push(`.min(${validation.min}, ${message(`Must be at least ${validation.min}${unit}`)})`);
+    }
+    if (validation.max !== undefined) {
+      checks.push(`.max(${validation.max}, ${message(`Must be at most ${validation.max}${unit}`)})`);
+    }
+  }
+
+  switch (validation.format) {
+    case 'email':
+      checks.push(`.email(${message('Expected an email address')})`);
+      break;
+    case 'phone':
+      checks.push(`.regex(/^\\+?[0-9 ()-]{7,20}$/, ${message('Expected a phone number')})`);
+      break;
+    case 'url':
+      checks.push(`.url(${message('Expected a URL')})`);
+      break;
+  }
+  if (validation.pattern !== undefined) {
+    checks.push(`.regex(new RegExp(${JSON.stringify(validation.pattern)}), ${message(`Must match ${validation.pattern}`)})`);
+  }
+  return checks;
+}
+
+/**
+ * Refinement callback enforcing the entity's cross-field rules, or undefined when it has none.
+ * Comparisons are skipped while either value is missing.
+ */
+function crossFieldRulesCode(entity: EntityDefinition): string | undefined {
+  if (!entity.rules?.length) return undefined;
+
+  let code = `export const ${entity.tableName}Rules = (value: Partial<Insert${entity.name}>, ctx: z.RefinementCtx) => {\n`;
+  for (const rule of entity.rules) {
+    const field = entity.fields.find(f => f.name === rule.field)!;
+    const operand = (name: string) =>
+      field.type === 'numeric' ? `Number(value.${name})` : field.type === 'timestamp' ? `new Date(value.${name}).getTime()` : `value.${name}`;
+    const operator = rule.operator === '=' ? '===' : rule.operator === '!=' ? '!==' : rule.operator;
+    const dates = field.type === 'date' || field.type === 'timestamp';
+    const message = rule.message ?? `${humanize(upperFirst(rule.field))} must be ${operatorWords(rule.operator, dates)} ${humanize(upperFirst(rule.otherField))}`;
+
+    code += `  if (value.${rule.field} != null && value.${rule.otherField} != null && !(${operand(rule.field)} ${operator} ${operand(rule.otherField)})) {\n`;
+    code += `    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["${rule.field}"], message: ${JSON.stringify(message)} });\n`;
+    code += `  }\n`;
+  }
+  code += `};\n\n`;
+  return code;
+}
+
+function operatorWords(operator: CrossFieldRule['operator'], dates: boolean): string {
+  switch (operator) {
+    case '<': return dates ? 'before' : 'less than';
+    case '<=': return dates ? 'on or before' : 'at most';
+    case '>': return dates ? 'after' : 'greater than';
+    case '>=': return dates ? 'on or after' : 'at least';
+    case '=': return 'equal to';
+    case '!=': return 'different from';
+  }
+}
+
+function upperFirst(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// "AttendanceRecord" -> "Attendance Record"
+function humanize(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
 }
 
 export const codeGenerator = new CodeGeneratorService();
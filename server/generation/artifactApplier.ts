@@ -0,0 +1,502 @@
+import ts from "typescript";
+import type { GenerationArtifact } from "@shared/schema";
+
+export type ArtifactSource = Pick<GenerationArtifact, "filePath" | "fileType" | "generatedCode">;
+
+interface TextEdit {
+  pos: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply a generated artifact to the current content of its target file.
+ *
+ * Artifacts for existing TypeScript files are fragments that mirror the
+ * structure of the target file:
+ * - import declarations are merged into the target's imports
+ * - interface/class declarations with a matching name get their members added
+ * - function declarations with a matching name (e.g. registerRoutes) get their
+ *   body statements inserted before the function's final return
+ * - other declarations replace a same-named declaration or are appended
+ *
+ * Component and test artifacts are complete files and replace the target as a whole.
+ */
+export function applyArtifact(existingContent: string, artifact: ArtifactSource): string {
+  if (replacesWholeFile(artifact) || !existingContent.trim()) {
+    return artifact.generatedCode;
+  }
+
+  const merged = mergeTypeScript(artifact.filePath, existingContent, artifact.generatedCode);
+  assertValidSyntax(artifact.filePath, merged);
+  return merged;
+}
+
+/**
+ * Take an applied artifact back out of the current content of its target file,
+ * reversing applyArtifact. Returns null when nothing but the artifact's code was
+ * in the file, so the file should be deleted.
+ */
+export function removeArtifact(existingContent: string, artifact: ArtifactSource): string | null {
+  if (replacesWholeFile(artifact)) {
+    return null;
+  }
+
+  const remaining = unmergeTypeScript(artifact.filePath, existingContent, artifact.generatedCode);
+  if (!remaining.trim()) return null;
+  assertValidSyntax(artifact.filePath, remaining);
+  return remaining;
+}
+
+/**
+ * Whether the artifact is a complete file rather than a fragment merged into its target
+ */
+export function replacesWholeFile(artifact: Pick<ArtifactSource, "fileType">): boolean {
+  return artifact.fileType === "component" || artifact.fileType === "test";
+}
+
+/**
+ * Merge a TypeScript fragment into an existing TypeScript source file
+ */
+export function mergeTypeScript(filePath: string, existingContent: string, fragment: string): string {
+  const target = parseSource(filePath, existingContent);
+  const source = parseSource(filePath, fragment);
+
+  const edits: TextEdit[] = [];
+  const newImports: string[] = [];
+  const appended: string[] = [];
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      mergeImport(target, source, statement, edits, newImports);
+      continue;
+    }
+
+    const name = getDeclarationName(statement);
+    const match = name ? findDeclaration(target, name) : undefined;
+
+    if (match && ts.isInterfaceDeclaration(statement) && ts.isInterfaceDeclaration(match)) {
+      mergeMembers(target, source, match, statement.members, "\n", edits);
+    } else if (match && ts.isClassDeclaration(statement) && ts.isClassDeclaration(match)) {
+      mergeMembers(target, source, match, statement.members, "\n\n", edits);
+    } else if (match && ts.isFunctionDeclaration(statement) && ts.isFunctionDeclaration(match)) {
+      mergeFunctionBody(target, source, match, statement, edits);
+    } else if (match) {
+      edits.push({ pos: match.getStart(target), end: match.end, text: statement.getText(source) });
+    } else {
+      appended.push(statement.getFullText(source));
+    }
+  }
+
+  if (newImports.length > 0) {
+    const imports = target.statements.filter(ts.isImportDeclaration);
+    const lastImport = imports[imports.length - 1];
+    if (lastImport) {
+      edits.push({ pos: lastImport.end, end: lastImport.end, text: "\n" + newImports.join("\n") });
+    } else {
+      edits.push({ pos: 0, end: 0, text: newImports.join("\n") + "\n\n" });
+    }
+  }
+
+  if (appended.length > 0) {
+    // Insert after the last statement and its same-line comment, leaving whatever
+    // follows (closing comments, a footer) at the end of the file
+    const lastStatement = target.statements[target.statements.length - 1];
+    const pos = lastStatement
+      ? (ts.getTrailingCommentRanges(existingContent, lastStatement.end) ?? []).reduce((end, c) => c.end, lastStatement.end)
+      : existingContent.trimEnd().length;
+    // Keep the fragment's own spacing between appended declarations
+    const text = trimLeadingBlankLines(appended.join(""));
+    edits.push({ pos, end: pos, text: "\n\n" + text });
+  }
+
+  return applyEdits(existingContent, edits);
+}
+
+/**
+ * Remove what a fragment merged into a source file: its declarations, members and
+ * function body statements, then the imports it added that nothing uses anymore
+ */
+export function unmergeTypeScript(filePath: string, existingContent: string, fragment: string): string {
+  const target = parseSource(filePath, existingContent);
+  const source = parseSource(filePath, fragment);
+  const edits: TextEdit[] = [];
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement)) continue;
+
+    const name = getDeclarationName(statement);
+    const match = name ? findDeclaration(target, name) : undefined;
+    if (!match) continue;
+
+    // A declaration the fragment appended whole goes as a whole, not just its members
+    if (sameCode(match, target, statement, source)) {
+      edits.push(removal(target, match));
+    } else if (ts.isInterfaceDeclaration(statement) && ts.isInterfaceDeclaration(match)) {
+      removeMembers(target, match, statement.members, edits);
+    } else if (ts.isClassDeclaration(statement) && ts.isClassDeclaration(match)) {
+      removeMembers(target, match, statement.members, edits);
+    } else if (ts.isFunctionDeclaration(statement) && ts.isFunctionDeclaration(match)) {
+      removeFunctionStatements(target, source, match, statement, edits);
+    } else {
+      edits.push(removal(target, match));
+    }
+  }
+
+  return removeUnusedImports(filePath, applyEdits(existingContent, edits), source);
+}
+
+function parseSource(filePath: string, content: string): ts.SourceFile {
+  const scriptKind = filePath.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+function assertValidSyntax(filePath: string, content: string): void {
+  const result = ts.transpileModule(content, {
+    fileName: filePath,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  });
+  const errors = (result.diagnostics ?? []).filter(d => d.category === ts.DiagnosticCategory.Error);
+  if (errors.length > 0) {
+    const messages = errors.map(d => ts.flattenDiagnosticMessageText(d.messageText, "\n"));
+    throw new Error(`Applying artifact to ${filePath} produced invalid code: ${messages.join("; ")}`);
+  }
+}
+
+function getDeclarationName(statement: ts.Statement): string | undefined {
+  if (
+    ts.isFunctionDeclaration(statement) ||
+    ts.isClassDeclaration(statement) ||
+    ts.isInterfaceDeclaration(statement) ||
+    ts.isTypeAliasDeclaration(statement) ||
+    ts.isEnumDeclaration(statement)
+  ) {
+    return statement.name?.text;
+  }
+  if (ts.isVariableStatement(statement)) {
+    const declarations = statement.declarationList.declarations;
+    if (declarations.length === 1 && ts.isIdentifier(declarations[0].name)) {
+      return declarations[0].name.text;
+    }
+  }
+  return undefined;
+}
+
+function findDeclaration(target: ts.SourceFile, name: string): ts.Statement | undefined {
+  return target.statements.find(s => getDeclarationName(s) === name);
+}
+
+function getMemberName(member: ts.ClassElement | ts.TypeElement): string | undefined {
+  if (member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+    return member.name.text;
+  }
+  return undefined;
+}
+
+function mergeImport(
+  target: ts.SourceFile,
+  source: ts.SourceFile,
+  declaration: ts.ImportDeclaration,
+  edits: TextEdit[],
+  newImports: string[]
+): void {
+  const moduleName = (declaration.moduleSpecifier as ts.StringLiteral).text;
+  const clause = declaration.importClause;
+  const wanted = clause?.namedBindings && ts.isNamedImports(clause.namedBindings)
+    ? clause.namedBindings.elements
+    : undefined;
+
+  const sameModule = target.statements.filter(
+    (s): s is ts.ImportDeclaration =>
+      ts.isImportDeclaration(s) && (s.moduleSpecifier as ts.StringLiteral).text === moduleName
+  );
+
+  // Default and namespace imports are only added when the module isn't imported yet
+  if (!wanted || clause?.name) {
+    if (sameModule.length === 0) {
+      newImports.push(declaration.getText(source));
+    }
+    return;
+  }
+
+  const imported = new Set(
+    sameModule.flatMap(s =>
+      s.importClause?.namedBindings && ts.isNamedImports(s.importClause.namedBindings)
+        ? s.importClause.namedBindings.elements.map(e => e.name.text)
+        : []
+    )
+  );
+  const missing = wanted.filter(e => !imported.has(e.name.text));
+  if (missing.length === 0) return;
+
+  // A type-only fragment import can be merged into a value import as `type X` specifiers
+  const candidates = sameModule.filter(
+    s => !!s.importClause?.namedBindings && ts.isNamedImports(s.importClause.namedBindings) && !s.importClause.name
+  );
+  const existing =
+    candidates.find(s => !!s.importClause?.isTypeOnly === !!clause?.isTypeOnly) ??
+    (clause?.isTypeOnly ? candidates.find(s => !s.importClause?.isTypeOnly) : undefined);
+  if (!existing) {
+    const typeOnly = clause?.isTypeOnly ? "type " : "";
+    newImports.push(`import ${typeOnly}{ ${missing.map(e => e.getText(source)).join(", ")} } from "${moduleName}";`);
+    return;
+  }
+
+  const typePrefix = clause?.isTypeOnly && !existing.importClause!.isTypeOnly ? "type " : "";
+  const specifiers = missing.map(e => (e.isTypeOnly ? e.getText(source) : typePrefix + e.getText(source)));
+  const existingElements = (existing.importClause!.namedBindings as ts.NamedImports).elements;
+  const last = existingElements[existingElements.length - 1];
+  if (!last) {
+    const bindings = existing.importClause!.namedBindings!;
+    const text = `{ ${specifiers.join(", ")} }`;
+    edits.push({ pos: bindings.getStart(target), end: bindings.end, text });
+    return;
+  }
+
+  const multiline = existing.importClause!.namedBindings!.getText(target).includes("\n");
+  const separator = multiline ? `,\n${indentOf(target, last)}` : ", ";
+  const text = specifiers.map(specifier => separator + specifier).join("");
+  edits.push({ pos: last.end, end: last.end, text });
+}
+
+function mergeMembers(
+  target: ts.SourceFile,
+  source: ts.SourceFile,
+  match: ts.InterfaceDeclaration | ts.ClassDeclaration,
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement>,
+  separator: string,
+  edits: TextEdit[]
+): void {
+  const existingMembers = match.members as ts.NodeArray<ts.ClassElement | ts.TypeElement>;
+  const indent = existingMembers.length > 0
+    ? indentOf(target, existingMembers[0])
+    : indentOf(target, match) + "  ";
+
+  const inserted: string[] = [];
+  for (const member of members) {
+    const name = getMemberName(member);
+    const duplicate = name ? existingMembers.find(m => getMemberName(m) === name) : undefined;
+    if (duplicate) {
+      const text = reindent(textFromLineStart(source, member), indent).trimStart();
+      edits.push({ pos: duplicate.getStart(target), end: duplicate.end, text });
+    } else {
+      inserted.push(reindent(trimLeadingBlankLines(member.getFullText(source)), indent));
+    }
+  }
+  if (inserted.length === 0) return;
+
+  const pos = existingMembers.length > 0 ? existingMembers.end : existingMembers.pos;
+  const prefix = existingMembers.length > 0 ? "\n\n" : "\n";
+  edits.push({ pos, end: pos, text: prefix + inserted.join(separator) });
+}
+
+function mergeFunctionBody(
+  target: ts.SourceFile,
+  source: ts.SourceFile,
+  match: ts.FunctionDeclaration,
+  fragment: ts.FunctionDeclaration,
+  edits: TextEdit[]
+): void {
+  const body = match.body;
+  const statements = fragment.body?.statements;
+  if (!body || !statements || statements.length === 0) return;
+
+  // Insert before the trailing return, and before the declaration of the value it returns
+  const targetStatements = body.statements;
+  let index = targetStatements.length;
+  const last = targetStatements[targetStatements.length - 1];
+  if (last && ts.isReturnStatement(last)) {
+    index = targetStatements.length - 1;
+    const previous = targetStatements[index - 1];
+    if (
+      previous &&
+      last.expression &&
+      ts.isIdentifier(last.expression) &&
+      getDeclarationName(previous) === last.expression.text
+    ) {
+      index -= 1;
+    }
+  }
+
+  const anchor = targetStatements[index];
+  const indent = anchor
+    ? indentOf(target, anchor)
+    : targetStatements.length > 0
+      ? indentOf(target, targetStatements[0])
+      : indentOf(target, match) + "  ";
+  const text = reindent(
+    trimLeadingBlankLines(source.text.slice(statements[0].getFullStart(), statements[statements.length - 1].end)),
+    indent
+  );
+
+  if (anchor) {
+    const pos = anchor.getFullStart();
+    edits.push({ pos, end: pos, text: "\n\n" + text });
+  } else {
+    const pos = targetStatements.end;
+    edits.push({ pos, end: pos, text: "\n\n" + text });
+  }
+}
+
+// A node together with the comments and blank lines in front of it; a comment
+// trailing the previous line stays with that line
+function removal(target: ts.SourceFile, node: ts.Node): TextEdit {
+  const start = node.getFullStart();
+  const newline = target.text.slice(start, node.getStart(target)).indexOf("\n");
+  if (newline === -1 && start === 0) {
+    // Nothing precedes it, so take the line break and blank line that follow instead,
+    // the way imports are inserted into a file that has none
+    const following = target.text.slice(node.end).match(/^[ \t]*\r?\n(?:[ \t]*\r?\n)?/);
+    return { pos: 0, end: node.end + (following?.[0].length ?? 0), text: "" };
+  }
+  return { pos: newline === -1 ? start : start + newline, end: node.end, text: "" };
+}
+
+// Merged code is reindented, so it is compared ignoring whitespace
+function sameCode(node: ts.Node, file: ts.SourceFile, other: ts.Node, otherFile: ts.SourceFile): boolean {
+  return node.getText(file).replace(/\s+/g, "") === other.getText(otherFile).replace(/\s+/g, "");
+}
+
+function removeMembers(
+  target: ts.SourceFile,
+  match: ts.InterfaceDeclaration | ts.ClassDeclaration,
+  members: ts.NodeArray<ts.ClassElement | ts.TypeElement>,
+  edits: TextEdit[]
+): void {
+  const names = new Set(members.map(getMemberName).filter(Boolean));
+  const existingMembers = match.members as ts.NodeArray<ts.ClassElement | ts.TypeElement>;
+  for (const member of existingMembers) {
+    const name = getMemberName(member);
+    if (name && names.has(name)) {
+      edits.push(removal(target, member));
+    }
+  }
+}
+
+function removeFunctionStatements(
+  target: ts.SourceFile,
+  source: ts.SourceFile,
+  match: ts.FunctionDeclaration,
+  fragment: ts.FunctionDeclaration,
+  edits: TextEdit[]
+): void {
+  const remaining = [...(match.body?.statements ?? [])];
+
+  for (const statement of fragment.body?.statements ?? []) {
+    const index = remaining.findIndex(s => sameCode(s, target, statement, source));
+    if (index === -1) continue;
+    edits.push(removal(target, remaining[index]));
+    remaining.splice(index, 1);
+  }
+}
+
+// Drop the fragment's import specifiers that are no longer referenced outside imports
+function removeUnusedImports(filePath: string, content: string, source: ts.SourceFile): string {
+  const target = parseSource(filePath, content);
+  const added = new Map<string, Set<string>>();
+  for (const statement of source.statements.filter(ts.isImportDeclaration)) {
+    const moduleName = (statement.moduleSpecifier as ts.StringLiteral).text;
+    const names = added.get(moduleName) ?? new Set<string>();
+    importedNames(statement).forEach(name => names.add(name));
+    added.set(moduleName, names);
+  }
+
+  const used = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) return;
+    if (ts.isIdentifier(node) && !isPropertyName(node)) used.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(target);
+
+  const edits: TextEdit[] = [];
+  for (const declaration of target.statements.filter(ts.isImportDeclaration)) {
+    const names = added.get((declaration.moduleSpecifier as ts.StringLiteral).text);
+    const clause = declaration.importClause;
+    if (!names || !clause) continue;
+
+    const unused = (name: string) => names.has(name) && !used.has(name);
+    const bindings = clause.namedBindings;
+    const elements = bindings && ts.isNamedImports(bindings) ? Array.from(bindings.elements) : [];
+    const keptElements = elements.filter(e => !unused(e.name.text));
+    const keepDefault = !!clause.name && !unused(clause.name.text);
+    const keepNamespace = !!bindings && ts.isNamespaceImport(bindings) && !unused(bindings.name.text);
+
+    if (!keepDefault && !keepNamespace && keptElements.length === 0) {
+      edits.push(removal(target, declaration));
+    } else if (keptElements.length < elements.length && keptElements.length > 0) {
+      // Keep the import's own formatting, e.g. one specifier per line
+      const separator = elements.length > 1 ? content.slice(elements[0].end, elements[1].getStart(target)) : ", ";
+      const text = keptElements.map(e => e.getText(target)).join(separator);
+      edits.push({ pos: elements[0].getStart(target), end: elements[elements.length - 1].end, text });
+    } else if (keptElements.length === 0 && elements.length > 0) {
+      // Only the default import is left
+      edits.push({ pos: clause.name!.end, end: bindings!.end, text: "" });
+    }
+  }
+  return applyEdits(content, edits);
+}
+
+// e.g. the primaryKey in column.primaryKey() or { primaryKey: true }, which is not a reference to an import
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent)) &&
+    parent.name === node
+  );
+}
+
+function importedNames(declaration: ts.ImportDeclaration): string[] {
+  const clause = declaration.importClause;
+  if (!clause) return [];
+  const names = clause.name ? [clause.name.text] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) names.push(bindings.name.text);
+  if (bindings && ts.isNamedImports(bindings)) names.push(...bindings.elements.map(e => e.name.text));
+  return names;
+}
+
+function indentOf(sourceFile: ts.SourceFile, node: ts.Node): string {
+  return textFromLineStart(sourceFile, node).match(/^[ \t]*/)![0];
+}
+
+function textFromLineStart(sourceFile: ts.SourceFile, node: ts.Node): string {
+  const start = node.getStart(sourceFile);
+  const lineStart = sourceFile.text.lastIndexOf("\n", start - 1) + 1;
+  return sourceFile.text.slice(lineStart, node.end);
+}
+
+function trimLeadingBlankLines(text: string): string {
+  return text.replace(/^(?:[ \t]*\r?\n)+/, "");
+}
+
+function reindent(text: string, indent: string): string {
+  const lines = text.split("\n");
+  const widths = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => line.match(/^[ \t]*/)![0].length);
+  const common = widths.length > 0 ? Math.min(...widths) : 0;
+  return lines
+    .map(line => (line.trim().length > 0 ? indent + line.slice(common) : ""))
+    .join("\n");
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  // Apply from the end of the file so earlier offsets stay valid;
+  // insertions at the same offset keep the order they were recorded in
+  const ordered = edits
+    .map((edit, order) => ({ ...edit, order }))
+    .sort((a, b) => b.pos - a.pos || b.order - a.order);
+
+  let result = content;
+  for (const edit of ordered) {
+    result = result.slice(0, edit.pos) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
@@ -0,0 +1,482 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getTableName, is, sql } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import type { UserRole } from "@shared/schema";
+import { db } from "../db";
+import {
+  moduleBlueprintSchema,
+  type ComponentDefinition,
+  type EntityDefinition,
+  type FieldDefinition,
+  type ModuleBlueprint,
+  type RouteDefinition,
+} from "@shared/blueprint";
+
+// The blueprint schema is shared with the client's blueprint editor
+export * from "@shared/blueprint";
+
+// Every generated table gets a school foreign key, like conversations and modules
+export const TENANT_FIELD = "schoolId";
+export const TENANT_COLUMN = "school_id";
+
+export function tenantIndexName(tableName: string): string {
+  return `idx_${tableName}_school`;
+}
+
+/**
+ * SQL default of a generated column, if it has one. Blueprint defaults are
+ * TypeScript expressions, so only plain literals can be translated.
+ */
+export function columnDefault(field: FieldDefinition): string | undefined {
+  if (field.default) {
+    try {
+      const value = JSON.parse(field.default);
+      if (typeof value === "string") return sqlString(value);
+      if (typeof value === "number" || typeof value === "boolean") return String(value);
+    } catch (error) {
+      // Not a JSON literal (e.g. a function call)
+    }
+    return undefined;
+  }
+  return field.type === "timestamp" && !field.array ? "now()" : undefined;
+}
+
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * The entity's fields with any model-provided tenant column dropped, since
+ * the generators add the school foreign key themselves
+ */
+export function tenantFields(entity: EntityDefinition): FieldDefinition[] {
+  const fields = entity.fields.filter(field => field.name !== TENANT_FIELD);
+  // The tenant column is emitted after the primary key, so make sure there is one
+  if (!fields.some(field => field.name === "id")) {
+    return [{ name: "id", type: "serial", required: true }, ...fields];
+  }
+  return fields;
+}
+
+// Every entity gets these routes; declared routes with the same method and path take their place
+const crudOperations = [
+  { method: "GET", item: false, verb: "List" },
+  { method: "POST", item: false, verb: "Create" },
+  { method: "GET", item: true, verb: "Get" },
+  { method: "PATCH", item: true, verb: "Update" },
+  { method: "DELETE", item: true, verb: "Delete" },
+] as const;
+
+// Roles that may use a CRUD route when the entity declares no route of the same kind
+const ADMIN_ROLES: UserRole[] = ["school_admin", "admin"];
+
+export interface EntityRoute {
+  route: RouteDefinition;
+  entity: EntityDefinition;
+}
+
+export interface EntityPage {
+  page: ComponentDefinition;
+  entity: EntityDefinition;
+}
+
+/**
+ * The entity a route operates on: its explicit entity, else the entity named by
+ * the last path segment that matches one, else the only entity of the blueprint
+ */
+export function entityForRoute(blueprint: ModuleBlueprint, route: RouteDefinition): EntityDefinition | undefined {
+  if (route.entity) {
+    return blueprint.entities.find(entity => entity.name === route.entity);
+  }
+  return matchPath(blueprint, route.path) ?? singleEntity(blueprint);
+}
+
+/**
+ * The entity a component manages: its explicit entity, else the entity its name
+ * starts with, else the entity matched from its path
+ */
+export function entityForComponent(blueprint: ModuleBlueprint, component: ComponentDefinition): EntityDefinition | undefined {
+  if (component.entity) {
+    return blueprint.entities.find(entity => entity.name === component.entity);
+  }
+  const byName = blueprint.entities
+    .filter(entity => component.name.startsWith(entity.name))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  return byName ?? (component.path ? matchPath(blueprint, component.path) : undefined) ?? singleEntity(blueprint);
+}
+
+/**
+ * Collection path of an entity's API, taken from its first declared route
+ */
+export function entityBasePath(blueprint: ModuleBlueprint, entity: EntityDefinition): string {
+  const declared = blueprint.apiRoutes.find(route => entityForRoute(blueprint, route) === entity);
+  if (declared) {
+    return declared.path.replace(/\/:[A-Za-z0-9_]+$/, "");
+  }
+  return `/api/${kebabCase(entity.tableName)}`;
+}
+
+/**
+ * The blueprint's routes mapped to their entities, followed by the CRUD routes
+ * an entity is missing. Added routes take their access rules from the entity's
+ * first declared route of the same kind (reads from a GET, writes from any other
+ * method) and are limited to admins when there is none.
+ */
+export function expandRoutes(blueprint: ModuleBlueprint): EntityRoute[] {
+  const routes: EntityRoute[] = [];
+  for (const route of blueprint.apiRoutes) {
+    const entity = entityForRoute(blueprint, route);
+    if (entity) routes.push({ route, entity });
+  }
+
+  for (const entity of blueprint.entities) {
+    const basePath = entityBasePath(blueprint, entity);
+    const declared = routes.filter(route => route.entity === entity).map(({ route }) => route);
+    for (const operation of crudOperations) {
+      const path = operation.item ? `${basePath}/:id` : basePath;
+      const key = routeKey(operation.method, path);
+      if (routes.some(({ route }) => routeKey(route.method, route.path) === key)) continue;
+
+      const reads = operation.method === "GET";
+      const template = declared.find(route => (route.method.toUpperCase() === "GET") === reads);
+      routes.push({
+        route: {
+          method: operation.method,
+          path,
+          description: `${operation.verb} ${entity.name}`,
+          requiresAuth: true,
+          entity: entity.name,
+          ...(template
+            ? { allowedRoles: template.allowedRoles, ownRecordsOnly: template.ownRecordsOnly }
+            : { allowedRoles: ADMIN_ROLES }),
+        },
+        entity,
+      });
+    }
+  }
+  return routes;
+}
+
+/**
+ * One page per entity: the first page component mapped to it, or a default page
+ */
+export function entityPages(blueprint: ModuleBlueprint): EntityPage[] {
+  const modulePath = `/${kebabCase(blueprint.moduleName)}`;
+  return blueprint.entities.map(entity => {
+    const declared = blueprint.uiComponents.find(
+      component => component.type === "page" && entityForComponent(blueprint, component) === entity
+    );
+    const page: ComponentDefinition = declared ?? {
+      name: `${entity.name}Page`,
+      type: "page",
+      description: `Manage ${entity.name} records`,
+      entity: entity.name,
+    };
+    return { page: { ...page, path: page.path ?? `${modulePath}/${kebabCase(entity.name)}` }, entity };
+  });
+}
+
+/**
+ * Path of a generated page under client/src, without the extension. Each module's
+ * pages get their own directory, away from the application's pages and other modules'.
+ */
+export function modulePagePath(blueprint: ModuleBlueprint, page: ComponentDefinition): string {
+  return `pages/modules/${kebabCase(blueprint.moduleName)}/${page.name.toLowerCase()}`;
+}
+
+export function kebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/_/g, "-")
+    .toLowerCase();
+}
+
+/**
+ * TypeScript type of a generated column's values
+ */
+export function fieldTsType(field: FieldDefinition): string {
+  const type = scalarTsType(field);
+  if (!field.array) return type;
+  return type.includes("|") ? `(${type})[]` : `${type}[]`;
+}
+
+/**
+ * Name of the Postgres enum type behind an enum field, e.g. fee_payments_payment_mode
+ */
+export function enumTypeName(entity: EntityDefinition, field: FieldDefinition): string {
+  return `${entity.tableName}_${field.name.replace(/([A-Z])/g, "_$1").toLowerCase()}`;
+}
+
+/**
+ * Name of the pgEnum export for an enum field, next to the table's ${table}Relations
+ */
+export function enumIdentifier(entity: EntityDefinition, field: FieldDefinition): string {
+  return `${entity.tableName}${field.name.charAt(0).toUpperCase()}${field.name.slice(1)}Enum`;
+}
+
+/**
+ * Names already taken by the application, which a blueprint must not redefine
+ */
+export interface BlueprintContext {
+  reservedTables: Set<string>;
+  reservedIdentifiers: Set<string>;
+  existingRoutes: Set<string>;
+  reservedPages: Set<string>;
+  // Columns of the tables already in the database, by table name
+  existingColumns: Map<string, Set<string>>;
+}
+
+export type BlueprintValidationResult =
+  | { success: true; blueprint: ModuleBlueprint }
+  | { success: false; errors: string[] };
+
+export class BlueprintValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Blueprint validation failed:\n${errors.map(e => `- ${e}`).join("\n")}`);
+    this.name = "BlueprintValidationError";
+  }
+}
+
+// Files whose route registrations count as existing /api/* paths
+const ROUTE_SOURCES = ["server/routes.ts", "server/auth/passwordAuth.ts"];
+
+// The application's own pages, which a generated page must not share a name with
+const PAGES_DIR = "client/src/pages";
+
+/**
+ * Collect the reserved tables and identifiers from shared/schema.ts and the
+ * routes registered in the server sources
+ */
+export async function loadBlueprintContext(): Promise<BlueprintContext> {
+  const reservedTables = new Set<string>();
+  const reservedIdentifiers = new Set<string>(Object.keys(schema));
+
+  for (const value of Object.values(schema)) {
+    if (is(value, PgTable)) {
+      reservedTables.add(getTableName(value));
+    }
+  }
+
+  // Type exports only exist in the source, not on the runtime module
+  const schemaSource = await readSource("shared/schema.ts");
+  for (const match of Array.from(schemaSource?.matchAll(/export\s+(?:const|type|interface|function|class)\s+(\w+)/g) ?? [])) {
+    reservedIdentifiers.add(match[1]);
+  }
+
+  const existingRoutes = new Set<string>();
+  for (const file of ROUTE_SOURCES) {
+    const source = await readSource(file);
+    if (!source) continue;
+    for (const match of Array.from(source.matchAll(/app\.(get|post|put|patch|delete)\(\s*['"`]([^'"`]+)['"`]/g))) {
+      existingRoutes.add(routeKey(match[1], match[2]));
+    }
+  }
+
+  const reservedPages = new Set<string>();
+  for (const file of await readSourceDir(PAGES_DIR)) {
+    if (file.endsWith(".tsx")) reservedPages.add(file.slice(0, -".tsx".length));
+  }
+
+  const existingColumns = new Map<string, Set<string>>();
+  const columns: any = await db.execute(
+    sql`SELECT table_name, column_name FROM information_schema.columns WHERE table_schema = 'public'`
+  );
+  for (const row of columns.rows ?? []) {
+    existingColumns.set(row.table_name, (existingColumns.get(row.table_name) ?? new Set()).add(row.column_name));
+  }
+
+  return { reservedTables, reservedIdentifiers, existingRoutes, reservedPages, existingColumns };
+}
+
+/**
+ * Validate raw model output against the blueprint schema and the application's reserved names
+ */
+export function validateBlueprint(raw: unknown, context: BlueprintContext): BlueprintValidationResult {
+  const parsed = moduleBlueprintSchema.safeParse(raw);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${issue.path.join(".") || "blueprint"}: ${issue.message}`),
+    };
+  }
+
+  const blueprint = parsed.data;
+  const errors: string[] = [];
+  const tableNames = new Set<string>();
+  const entityNames = new Set<string>();
+
+  blueprint.entities.forEach((entity, i) => {
+    if (context.reservedTables.has(entity.tableName)) {
+      errors.push(`entities.${i}.tableName: "${entity.tableName}" is an existing table in shared/schema.ts`);
+    }
+    if (tableNames.has(entity.tableName)) {
+      errors.push(`entities.${i}.tableName: "${entity.tableName}" is used by more than one entity`);
+    }
+    tableNames.add(entity.tableName);
+
+    if (!context.reservedTables.has(entity.tableName) && context.reservedIdentifiers.has(entity.tableName)) {
+      errors.push(`entities.${i}.tableName: "${entity.tableName}" is already exported from shared/schema.ts`);
+    }
+    for (const identifier of [entity.name, `Insert${entity.name}`, `insert${entity.name}Schema`]) {
+      if (context.reservedIdentifiers.has(identifier)) {
+        errors.push(`entities.${i}.name: "${identifier}" is already exported from shared/schema.ts`);
+      }
+    }
+    if (entityNames.has(entity.name)) {
+      errors.push(`entities.${i}.name: "${entity.name}" is used by more than one entity`);
+    }
+    entityNames.add(entity.name);
+
+    const fieldNames = new Set<string>();
+    entity.fields.forEach((field, j) => {
+      if (fieldNames.has(field.name)) {
+        errors.push(`entities.${i}.fields.${j}.name: duplicate field "${field.name}"`);
+      }
+      fieldNames.add(field.name);
+
+      // Storage, routes and tests look rows up by a numeric id
+      if (field.name === "id" && field.type !== "serial") {
+        errors.push(`entities.${i}.fields.${j}.type: id must be serial, not ${field.type}`);
+      }
+
+      // Rows already in a table from an earlier revision need a value for a new required column
+      const columns = context.existingColumns.get(entity.tableName);
+      if (columns && !columns.has(field.name) && field.required && columnDefault(field) === undefined) {
+        errors.push(`entities.${i}.fields.${j}.default: "${field.name}" is a new required column on the existing table ${entity.tableName}, give it a literal default for the rows already there`);
+      }
+
+      if (field.type === "enum") {
+        if (enumTypeName(entity, field).length > 63) {
+          errors.push(`entities.${i}.fields.${j}.name: enum type "${enumTypeName(entity, field)}" is longer than 63 characters`);
+        }
+        if (context.reservedIdentifiers.has(enumIdentifier(entity, field))) {
+          errors.push(`entities.${i}.fields.${j}.name: "${enumIdentifier(entity, field)}" is already exported from shared/schema.ts`);
+        }
+      }
+    });
+  });
+
+  blueprint.relationships.forEach((relationship, i) => {
+    for (const end of ["from", "to"] as const) {
+      const table = relationship[end];
+      if (!tableNames.has(table) && !context.reservedTables.has(table)) {
+        errors.push(`relationships.${i}.${end}: unknown table "${table}"`);
+      }
+    }
+  });
+
+  const routes = new Set<string>();
+  blueprint.apiRoutes.forEach((route, i) => {
+    const key = routeKey(route.method, route.path);
+    if (context.existingRoutes.has(key)) {
+      errors.push(`apiRoutes.${i}: ${route.method} ${route.path} clashes with an existing route`);
+    }
+    if (routes.has(key)) {
+      errors.push(`apiRoutes.${i}: ${route.method} ${route.path} is declared more than once`);
+    }
+    routes.add(key);
+
+    const entity = entityForRoute(blueprint, route);
+    if (route.entity && !entityNames.has(route.entity)) {
+      errors.push(`apiRoutes.${i}.entity: unknown entity "${route.entity}"`);
+    } else if (!entity) {
+      errors.push(`apiRoutes.${i}: cannot tell which entity ${route.method} ${route.path} is for, set entity`);
+    } else if (route.ownRecordsOnly && !entity.ownerField) {
+      errors.push(`apiRoutes.${i}.ownRecordsOnly: ${entity.name} has no ownerField to tell whose records are whose`);
+    }
+  });
+
+  blueprint.uiComponents.forEach((component, i) => {
+    if (component.entity && !entityNames.has(component.entity)) {
+      errors.push(`uiComponents.${i}.entity: unknown entity "${component.entity}"`);
+    } else if (component.type === "page" && !entityForComponent(blueprint, component)) {
+      errors.push(`uiComponents.${i}: cannot tell which entity ${component.name} is for, set entity`);
+    }
+    if (component.type === "page" && context.reservedPages.has(component.name.toLowerCase())) {
+      errors.push(`uiComponents.${i}.name: "${component.name}" collides with the existing page ${PAGES_DIR}/${component.name.toLowerCase()}.tsx`);
+    }
+  });
+
+  // The CRUD routes added for each entity must not clash with the application either
+  if (errors.length === 0) {
+    for (const { route, entity } of expandRoutes(blueprint)) {
+      const key = routeKey(route.method, route.path);
+      if (!routes.has(key) && context.existingRoutes.has(key)) {
+        errors.push(`entities: ${route.method} ${route.path} generated for ${entity.name} clashes with an existing route, declare its routes under another path`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, blueprint };
+}
+
+function scalarTsType(field: FieldDefinition): string {
+  switch (field.type) {
+    case "serial":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "timestamp":
+      return "Date";
+    case "jsonb":
+      return "unknown";
+    case "enum":
+      return field.enumValues!.map(value => JSON.stringify(value)).join(" | ");
+    default:
+      // varchar, text, uuid, user ids, and date and numeric, which drizzle returns as strings
+      return "string";
+  }
+}
+
+function matchPath(blueprint: ModuleBlueprint, routePath: string): EntityDefinition | undefined {
+  const segments = routePath
+    .split("/")
+    .filter(segment => segment && segment !== "api" && !segment.startsWith(":"))
+    .reverse();
+
+  for (const segment of segments) {
+    const normalized = normalizeName(segment);
+    const entity = blueprint.entities.find(candidate => {
+      const names = [candidate.name, candidate.tableName].map(normalizeName);
+      return names.some(name => [name, `${name}s`, `${name}es`].includes(normalized) || name === `${normalized}s`);
+    });
+    if (entity) return entity;
+  }
+  return undefined;
+}
+
+function singleEntity(blueprint: ModuleBlueprint): EntityDefinition | undefined {
+  return blueprint.entities.length === 1 ? blueprint.entities[0] : undefined;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+async function readSource(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(process.cwd(), file), "utf-8");
+  } catch (error) {
+    // Source isn't available (e.g. bundled production build)
+    return null;
+  }
+}
+
+async function readSourceDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(path.join(process.cwd(), dir));
+  } catch (error) {
+    return [];
+  }
+}
+
+// Route parameters are normalized so /api/x/:id and /api/x/:xId are treated as the same path
+function routeKey(method: string, routePath: string): string {
+  return `${method.toUpperCase()} ${routePath.replace(/:[A-Za-z0-9_]+/g, ":param").replace(/\/$/, "")}`;
+}
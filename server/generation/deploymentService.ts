@@ -0,0 +1,439 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import { storage } from "../storage";
+import { applyArtifact, removeArtifact, replacesWholeFile } from "./artifactApplier";
+import { buildArchiveSql, parseMigration } from "./migrationGenerator";
+import { createUnifiedDiff } from "./unifiedDiff";
+import { testRunner } from "./testRunner";
+import { resolveWorkspacePath } from "./workspacePath";
+import type { ModuleBlueprint } from "./blueprint";
+import type { DeploymentHistory, GenerationArtifact, ModuleTableAction } from "@shared/schema";
+
+/**
+ * State of the workspace before a deployment, stored in deploymentHistory.backupSnapshot.
+ * A null file entry means the file did not exist and is removed on rollback.
+ */
+export interface BackupSnapshot {
+  files: Record<string, string | null>;
+  rollbackSql?: string | null;
+}
+
+export class DeploymentService {
+  /**
+   * Apply all artifacts of an approved job to the workspace and record the deployment.
+   * The job's generated tests have to pass first. Migration artifacts run in a single
+   * transaction before any file is written, so a failed migration cancels the whole deploy.
+   */
+  async deployJob(jobId: number, userId: string): Promise<{ deployment: DeploymentHistory; filesModified: string[] }> {
+    const artifacts = await storage.getJobArtifacts(jobId);
+    const migrationArtifacts = artifacts.filter(a => a.fileType === "migration");
+    const fileArtifacts = artifacts.filter(a => a.fileType !== "migration");
+
+    const migrations = migrationArtifacts.map(a => parseMigration(a.generatedCode));
+    const migrationsSql = migrations.map(m => m.up).filter(Boolean).join("\n\n") || null;
+    const rollbackSql = migrations.map(m => m.down).filter(Boolean).reverse().join("\n") || null;
+
+    const snapshot: BackupSnapshot = { files: {}, rollbackSql };
+    let filesModified: string[] = [];
+
+    try {
+      const testRun = await testRunner.runJobTests(jobId);
+      if (testRun && !testRun.passed) {
+        throw new DeploymentError(422, `Generated tests failed:\n${testRun.output}`);
+      }
+
+      await this.assertOwnsFiles(jobId, fileArtifacts);
+
+      const fileContents = await this.applyArtifacts(fileArtifacts, snapshot);
+      filesModified = Array.from(fileContents.keys());
+
+      if (migrationsSql) {
+        await this.runSql(migrationsSql);
+      }
+
+      try {
+        await this.writeFiles(fileContents);
+      } catch (error) {
+        // Put back whatever was already written and undo the migration before surfacing the error
+        await this.restoreFiles(snapshot);
+        if (rollbackSql) {
+          await this.runSql(rollbackSql);
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      await storage.createDeployment({
+        jobId,
+        deployedBy: userId,
+        filesModified,
+        migrationsSql,
+        status: "failed",
+        errorMessage: error.message,
+      });
+      throw error;
+    }
+
+    // Mark artifacts as applied
+    for (const artifact of artifacts) {
+      await storage.updateArtifact(artifact.id, {
+        isApplied: true,
+        appliedAt: new Date(),
+      } as any);
+    }
+
+    await this.registerModule(jobId, userId);
+
+    // Create deployment record
+    const deployment = await storage.createDeployment({
+      jobId,
+      deployedBy: userId,
+      filesModified,
+      backupSnapshot: snapshot,
+      migrationsSql,
+      status: "success",
+    });
+
+    return { deployment, filesModified };
+  }
+
+  /**
+   * Store a unified diff of what each artifact changes in its target file.
+   * Artifacts for the same file are diffed against the result of the ones before them.
+   */
+  async previewDiffs(jobId: number): Promise<void> {
+    const artifacts = await storage.getJobArtifacts(jobId);
+    const fileContents = new Map<string, string | null>();
+
+    for (const artifact of artifacts) {
+      let before = fileContents.get(artifact.filePath);
+      if (before === undefined) {
+        before = await this.readFile(artifact.filePath);
+      }
+
+      let diffPreview: string;
+      try {
+        const after = artifact.fileType === "migration"
+          ? artifact.generatedCode
+          : applyArtifact(before ?? '', artifact);
+        fileContents.set(artifact.filePath, after);
+        diffPreview = createUnifiedDiff(artifact.filePath, before, after);
+      } catch (error: any) {
+        diffPreview = `Cannot preview changes: ${error.message}`;
+      }
+
+      await storage.updateArtifact(artifact.id, { diffPreview });
+    }
+  }
+
+  /**
+   * Restore the workspace to its state before a deployment and mark the job as rolled back
+   */
+  async rollbackDeployment(deploymentId: number): Promise<DeploymentHistory> {
+    const deployment = await storage.getDeployment(deploymentId);
+    if (!deployment) {
+      throw new DeploymentError(404, "Deployment not found");
+    }
+
+    if (deployment.status !== "success") {
+      throw new DeploymentError(400, "Only successful deployments can be rolled back");
+    }
+
+    const snapshot = deployment.backupSnapshot as BackupSnapshot | null;
+    if (!snapshot?.files) {
+      throw new DeploymentError(400, "Deployment has no backup snapshot to restore");
+    }
+
+    // Restoring over a newer deployment of the same files would silently discard it
+    const filesModified = deployment.filesModified as string[];
+    const newer = (await storage.getDeploymentHistory()).find(
+      d =>
+        d.id !== deployment.id &&
+        (d.status === "success" || d.status === "uninstalled") &&
+        d.deployedAt > deployment.deployedAt &&
+        (d.filesModified as string[]).some(file => filesModified.includes(file))
+    );
+    if (newer) {
+      throw new DeploymentError(
+        409,
+        `Deployment #${newer.id} modified the same files later. Roll it back first.`
+      );
+    }
+
+    if (snapshot.rollbackSql) {
+      await this.runSql(snapshot.rollbackSql);
+    }
+
+    await this.restoreFiles(snapshot);
+
+    const artifacts = await storage.getJobArtifacts(deployment.jobId);
+    for (const artifact of artifacts) {
+      await storage.updateArtifact(artifact.id, {
+        isApplied: false,
+        appliedAt: null,
+      } as any);
+    }
+
+    const rolledBack = await storage.updateDeployment(deployment.id, {
+      status: "rolled_back",
+      rolledBackAt: new Date(),
+    } as any);
+
+    const job = await storage.getGenerationJob(deployment.jobId);
+    if (job?.moduleId) {
+      await storage.updateModule(job.moduleId, { status: "inactive" });
+    }
+
+    await storage.updateGenerationJob(deployment.jobId, {
+      status: "rolled_back",
+    });
+
+    return rolledBack;
+  }
+
+  /**
+   * Remove everything a module's deployed jobs applied: their code is taken back out of
+   * the source files, then its tables are dropped with the migrations' down SQL or
+   * archived under new names. The module row is deleted and the uninstall is recorded
+   * in the deployment history of its latest job.
+   */
+  async uninstallModule(
+    moduleId: number,
+    userId: string,
+    tableAction: ModuleTableAction
+  ): Promise<{ deployment: DeploymentHistory; filesModified: string[] }> {
+    const module = await storage.getModule(moduleId);
+    if (!module) {
+      throw new DeploymentError(404, "Module not found");
+    }
+
+    const jobs = (await storage.getModuleJobs(moduleId)).filter(j => j.status === "deployed");
+    if (jobs.length === 0) {
+      throw new DeploymentError(400, "Module has no deployed code to uninstall");
+    }
+
+    // Newest job first, so later revisions are taken out before the ones they built on
+    const artifacts: GenerationArtifact[] = [];
+    for (const job of jobs) {
+      const applied = (await storage.getJobArtifacts(job.id)).filter(a => a.isApplied);
+      artifacts.push(...applied.reverse());
+    }
+
+    const archiveSuffix = `archived_${archiveTimestamp()}`;
+    const sqlStatements = tableAction === "drop"
+      ? artifacts.filter(a => a.fileType === "migration").map(a => parseMigration(a.generatedCode).down)
+      : jobs.map(job => buildArchiveSql(job.moduleBlueprint as ModuleBlueprint, archiveSuffix));
+    const uninstallSql = Array.from(new Set(sqlStatements.filter(Boolean))).join("\n") || null;
+
+    const snapshot: BackupSnapshot = { files: {} };
+    let filesModified: string[] = [];
+
+    try {
+      const fileContents = await this.removeArtifacts(artifacts.filter(a => a.fileType !== "migration"), snapshot);
+      filesModified = Array.from(fileContents.keys());
+
+      // Dropped tables cannot be brought back, so the files go first and are restored if the SQL fails
+      await this.writeFiles(fileContents);
+      if (uninstallSql) {
+        try {
+          await this.runSql(uninstallSql);
+        } catch (error) {
+          await this.restoreFiles(snapshot);
+          throw error;
+        }
+      }
+    } catch (error: any) {
+      await storage.createDeployment({
+        jobId: jobs[0].id,
+        deployedBy: userId,
+        filesModified,
+        migrationsSql: uninstallSql,
+        status: "failed",
+        errorMessage: `Uninstall failed: ${error.message}`,
+      });
+      throw error;
+    }
+
+    for (const artifact of artifacts) {
+      await storage.updateArtifact(artifact.id, {
+        isApplied: false,
+        appliedAt: null,
+      } as any);
+    }
+    for (const job of jobs) {
+      await storage.updateGenerationJob(job.id, { status: "uninstalled" });
+    }
+    await storage.deleteModule(moduleId);
+
+    const deployment = await storage.createDeployment({
+      jobId: jobs[0].id,
+      deployedBy: userId,
+      filesModified,
+      backupSnapshot: snapshot,
+      migrationsSql: uninstallSql,
+      status: "uninstalled",
+    });
+
+    return { deployment, filesModified };
+  }
+
+  /**
+   * Activate the job's module for its school so the client registry shows its pages.
+   * Jobs without a school are platform-wide; schools enable those from the modules page.
+   */
+  private async registerModule(jobId: number, userId: string): Promise<void> {
+    const job = await storage.getGenerationJob(jobId);
+    if (!job) return;
+
+    if (job.moduleId) {
+      await storage.updateModule(job.moduleId, { status: "active" });
+      return;
+    }
+
+    const blueprint = job.moduleBlueprint as ModuleBlueprint | null;
+    if (!job.schoolId || !blueprint) return;
+
+    const module = await storage.createModule({
+      schoolId: job.schoolId,
+      name: blueprint.moduleName,
+      description: blueprint.description,
+      status: "active",
+      createdBy: userId,
+    });
+    await storage.updateGenerationJob(jobId, { moduleId: module.id });
+  }
+
+  /**
+   * Whole-file artifacts may only replace a file that an earlier revision of the same
+   * module wrote, so a generated page or test never overwrites the application's own
+   * files, which uninstalling the module would then delete
+   */
+  private async assertOwnsFiles(jobId: number, artifacts: GenerationArtifact[]): Promise<void> {
+    const job = await storage.getGenerationJob(jobId);
+    if (!job) return;
+
+    const related = await storage.getJobRevisions(job.originalJobId ?? job.id);
+    if (job.moduleId) {
+      related.push(...(await storage.getModuleJobs(job.moduleId)));
+    }
+
+    const owned = new Set<string>();
+    for (const relatedJob of related) {
+      if (relatedJob.id === jobId) continue;
+      for (const artifact of await storage.getJobArtifacts(relatedJob.id)) {
+        if (artifact.isApplied) owned.add(artifact.filePath);
+      }
+    }
+
+    for (const artifact of artifacts) {
+      if (!replacesWholeFile(artifact) || owned.has(artifact.filePath)) continue;
+      if (await this.readFile(artifact.filePath) !== null) {
+        throw new DeploymentError(409, `${artifact.filePath} already exists and was not created by this module`);
+      }
+    }
+  }
+
+  /**
+   * Merge artifacts into the current file contents in memory, recording the
+   * original contents in the snapshot so a failed merge leaves the workspace untouched
+   */
+  private async applyArtifacts(artifacts: GenerationArtifact[], snapshot: BackupSnapshot): Promise<Map<string, string>> {
+    const fileContents = new Map<string, string>();
+
+    for (const artifact of artifacts) {
+      let existingContent = fileContents.get(artifact.filePath);
+      if (existingContent === undefined) {
+        const original = await this.readFile(artifact.filePath);
+        snapshot.files[artifact.filePath] = original;
+        existingContent = original ?? '';
+      }
+
+      fileContents.set(artifact.filePath, applyArtifact(existingContent, artifact));
+    }
+
+    return fileContents;
+  }
+
+  /**
+   * Take artifacts out of the current file contents in memory; null contents mean the
+   * file held nothing else and is deleted
+   */
+  private async removeArtifacts(artifacts: GenerationArtifact[], snapshot: BackupSnapshot): Promise<Map<string, string | null>> {
+    const fileContents = new Map<string, string | null>();
+
+    for (const artifact of artifacts) {
+      let existingContent = fileContents.get(artifact.filePath);
+      if (existingContent === undefined) {
+        existingContent = await this.readFile(artifact.filePath);
+        snapshot.files[artifact.filePath] = existingContent;
+      }
+      if (existingContent === null) continue;
+
+      fileContents.set(artifact.filePath, removeArtifact(existingContent, artifact));
+    }
+
+    return fileContents;
+  }
+
+  private async runSql(statements: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql.raw(statements));
+    });
+  }
+
+  private async readFile(filePath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.resolvePath(filePath), 'utf-8');
+    } catch (error) {
+      // File doesn't exist yet
+      return null;
+    }
+  }
+
+  // A null content removes the file
+  private async writeFiles(fileContents: Map<string, string | null>): Promise<void> {
+    for (const [filePath, content] of Array.from(fileContents.entries())) {
+      const absolutePath = this.resolvePath(filePath);
+      if (content === null) {
+        await fs.rm(absolutePath, { force: true });
+        continue;
+      }
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content, 'utf-8');
+    }
+  }
+
+  private async restoreFiles(snapshot: BackupSnapshot): Promise<void> {
+    for (const [filePath, content] of Object.entries(snapshot.files)) {
+      const absolutePath = this.resolvePath(filePath);
+      if (content === null) {
+        await fs.rm(absolutePath, { force: true });
+      } else {
+        await fs.writeFile(absolutePath, content, 'utf-8');
+      }
+    }
+  }
+
+  private resolvePath(filePath: string): string {
+    const absolutePath = resolveWorkspacePath(process.cwd(), filePath);
+    if (!absolutePath) {
+      throw new DeploymentError(400, `Refusing to write outside the workspace: ${filePath}`);
+    }
+    return absolutePath;
+  }
+}
+
+// e.g. 20261019143005, appended to archived table names
+function archiveTimestamp(): string {
+  return new Date().toISOString().replace(/\D/g, "").slice(0, 14);
+}
+
+export class DeploymentError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "DeploymentError";
+  }
+}
+
+export const deploymentService = new DeploymentService();
@@ -0,0 +1,198 @@
+import { TENANT_FIELD, type EntityDefinition, type FieldDefinition } from "./blueprint";
+import { entityFields, type RelationshipPlan } from "./relationships";
+
+// Filled in by the database rather than the user
+const GENERATED_FIELDS = new Set(["id", TENANT_FIELD, "createdAt", "updatedAt"]);
+
+/**
+ * Fields shown in an entity's generated create/edit form
+ */
+export function formFields(entity: EntityDefinition, plan: RelationshipPlan): FieldDefinition[] {
+  return entityFields(entity, plan).filter(field => field.type !== "serial" && !GENERATED_FIELDS.has(field.name));
+}
+
+/**
+ * UI components a form for these fields imports, as [component names, module] pairs
+ */
+export function formImports(fields: FieldDefinition[]): Array<[string[], string]> {
+  const imports: Array<[string[], string]> = [
+    [["Form", "FormControl", "FormField", "FormItem", "FormLabel", "FormMessage"], "@/components/ui/form"],
+    [["Input"], "@/components/ui/input"],
+  ];
+  if (fields.some(field => !field.array && (field.type === "text" || field.type === "jsonb"))) {
+    imports.push([["Textarea"], "@/components/ui/textarea"]);
+  }
+  if (fields.some(field => !field.array && field.type === "boolean")) {
+    imports.push([["Checkbox"], "@/components/ui/checkbox"]);
+  }
+  if (fields.some(field => !field.array && field.type === "enum")) {
+    imports.push([["Select", "SelectContent", "SelectItem", "SelectTrigger", "SelectValue"], "@/components/ui/select"]);
+  }
+  return imports;
+}
+
+/**
+ * Initial form state: form values are strings, except checkboxes.
+ * Literal blueprint defaults are filled in.
+ */
+export function emptyFormCode(fields: FieldDefinition[]): string {
+  const values = fields.map(field => `${field.name}: ${initialValue(field)}`);
+  return `{ ${values.join(", ")} }`;
+}
+
+/**
+ * JSX for a react-hook-form FormField bound to the field, with its validation message
+ */
+export function formInputCode(field: FieldDefinition, indent: string): string {
+  const label = `${fieldLabel(field)}${field.required ? " *" : ""}`;
+  const testId = `data-testid="input-${field.name}"`;
+
+  let control: string[];
+  let itemClass = "";
+  if (field.array) {
+    control = [`<Input placeholder="Comma-separated values" ${testId} {...field} />`];
+  } else {
+    switch (field.type) {
+      case "boolean":
+        itemClass = ` className="flex items-center gap-2 space-y-0"`;
+        control = [`<Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} ${testId} />`];
+        break;
+      case "enum":
+        control = [
+          `<Select value={field.value} onValueChange={field.onChange}>`,
+          `  <FormControl>`,
+          `    <SelectTrigger ${testId}>`,
+          `      <SelectValue placeholder="Select ${fieldLabel(field).toLowerCase()}" />`,
+          `    </SelectTrigger>`,
+          `  </FormControl>`,
+          `  <SelectContent>`,
+          ...field.enumValues!.map(option => `    <SelectItem value=${JSON.stringify(option)}>${option}</SelectItem>`),
+          `  </SelectContent>`,
+          `</Select>`,
+        ];
+        break;
+      case "integer":
+        control = [`<Input type="number" step="1" ${testId} {...field} />`];
+        break;
+      case "numeric": {
+        const step = field.scale ? (1 / 10 ** field.scale).toFixed(field.scale) : field.scale === 0 ? "1" : "any";
+        control = [`<Input type="number" step="${step}" inputMode="decimal" ${testId} {...field} />`];
+        break;
+      }
+      case "date":
+        control = [`<Input type="date" ${testId} {...field} />`];
+        break;
+      case "timestamp":
+        control = [`<Input type="datetime-local" ${testId} {...field} />`];
+        break;
+      case "text":
+        control = [`<Textarea ${testId} {...field} />`];
+        break;
+      case "jsonb":
+        control = [`<Textarea className="font-mono" placeholder="{ }" ${testId} {...field} />`];
+        break;
+      case "user":
+        control = [`<Input placeholder="User ID" ${testId} {...field} />`];
+        break;
+      default: {
+        const maxLength = field.length ? ` maxLength={${field.length}}` : "";
+        const type = field.validation?.format === "email" ? ` type="email"` : field.validation?.format === "phone" ? ` type="tel"` : "";
+        control = [`<Input${type}${maxLength} ${testId} {...field} />`];
+      }
+    }
+  }
+
+  // Selects put FormControl around their trigger themselves
+  const wrapped = field.type === "enum" && !field.array
+    ? control
+    : ["<FormControl>", ...control.map(line => `  ${line}`), "</FormControl>"];
+  const body = field.type === "boolean" && !field.array
+    ? [...wrapped, `<FormLabel>${label}</FormLabel>`]
+    : [`<FormLabel>${label}</FormLabel>`, ...wrapped];
+
+  return [
+    `<FormField`,
+    `  control={form.control}`,
+    `  name="${field.name}"`,
+    `  render={({ field }) => (`,
+    `    <FormItem${itemClass}>`,
+    ...body.map(line => `      ${line}`),
+    `      <FormMessage />`,
+    `    </FormItem>`,
+    `  )}`,
+    `/>`,
+  ].map(line => indent + line).join("\n");
+}
+
+/**
+ * Check added to the form's resolver for fields whose text has to parse before
+ * the converted value can be validated
+ */
+export function formPreflightCode(field: FieldDefinition): string | undefined {
+  if (field.type !== "jsonb") return undefined;
+  return [
+    `  if (values.${field.name} !== "" && !isJson(values.${field.name})) {`,
+    `    errors.${field.name} = { type: "json", message: "Expected valid JSON" };`,
+    `  }`,
+  ].join("\n");
+}
+
+/**
+ * Expression converting item.<field> of a fetched row into its form value
+ */
+export function formValueCode(field: FieldDefinition): string {
+  const value = `item.${field.name}`;
+  if (field.type === "boolean" && !field.array) return `${value} === true`;
+  if (field.array) return `(${value} ?? []).join(", ")`;
+  if (field.type === "timestamp") return `${value} ? toDateTimeInput(${value}) : ""`;
+  if (field.type === "jsonb") return `${value} == null ? "" : JSON.stringify(${value}, null, 2)`;
+  return `String(${value} ?? "")`;
+}
+
+/**
+ * Expression converting form.<field> into the value the API's insert schema expects.
+ * Cleared fields become `empty`: undefined when creating, null when updating.
+ */
+export function formPayloadCode(field: FieldDefinition): string {
+  const value = `form.${field.name}`;
+  if (field.type === "boolean" && !field.array) return value;
+
+  let converted: string;
+  if (field.array) {
+    const item = field.type === "integer" ? "Number(v.trim())" : "v.trim()";
+    converted = `${value}.split(",").filter((v: string) => v.trim()).map((v: string) => ${item})`;
+  } else if (field.type === "integer") {
+    converted = `Number(${value})`;
+  } else if (field.type === "timestamp") {
+    converted = `new Date(${value}).toISOString()`;
+  } else if (field.type === "jsonb") {
+    converted = `JSON.parse(${value})`;
+  } else {
+    // numeric and date columns are sent as strings
+    converted = value;
+  }
+  // Required fields are left out so the column default applies, or the API reports them
+  return `${value} === "" ? ${field.required ? "undefined" : "empty"} : ${converted}`;
+}
+
+function initialValue(field: FieldDefinition): string {
+  const checkbox = field.type === "boolean" && !field.array;
+  let value: unknown;
+  try {
+    value = field.default ? JSON.parse(field.default) : undefined;
+  } catch (error) {
+    // Not a JSON literal (e.g. a function call)
+  }
+
+  if (checkbox) return value === true ? "true" : "false";
+  if (typeof value === "string" || typeof value === "number") return JSON.stringify(String(value));
+  return '""';
+}
+
+/**
+ * Label of the field in forms and table headers: "lateFee" -> "Late Fee"
+ */
+export function fieldLabel(field: FieldDefinition): string {
+  const words = field.name.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,126 @@
+import os from "os";
+import { storage } from "../storage";
+import { codeGenerator } from "../codeGenerator";
+import type { ModuleGenerationJob } from "@shared/schema";
+
+// Attempts per step, counting runs interrupted by a crash
+const MAX_ATTEMPTS = 3;
+const POLL_INTERVAL_MS = 5_000;
+// A job whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = 2 * 60_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const RETRY_BASE_DELAY_MS = 30_000;
+
+export class GenerationWorker {
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private draining = false;
+
+  /**
+   * Poll the queue in the background (long-running servers only; Vercel uses the cron route)
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.drain();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Pick up newly queued jobs without waiting for the next poll
+   */
+  notify(): void {
+    if (this.timer) this.drain();
+  }
+
+  /**
+   * Claim a job and run its next step, putting it back in the queue when steps are
+   * left. Each call stays well within a serverless function's time limit, so the
+   * cron route can call it once per invocation. Returns false when the queue is empty.
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await storage.claimGenerationJob(this.workerId, new Date(Date.now() - LOCK_TIMEOUT_MS));
+    if (!job) return false;
+
+    await this.process(job);
+    return true;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (await this.runOnce()) {
+        // Keep going until the queue is empty
+      }
+    } catch (error) {
+      console.error("Generation worker error:", error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async process(job: ModuleGenerationJob): Promise<void> {
+    if (job.attempts > MAX_ATTEMPTS) {
+      await this.fail(job, `Gave up after ${MAX_ATTEMPTS} attempts`);
+      return;
+    }
+    if (job.attempts > 1) {
+      await codeGenerator.recordEvent(job.id, null, "resumed", `Attempt ${job.attempts} of ${MAX_ATTEMPTS}`);
+    }
+
+    const heartbeat = setInterval(() => {
+      storage.updateGenerationJob(job.id, { lockedAt: new Date() }).catch(error => {
+        console.error(`Failed to refresh lock on generation job ${job.id}:`, error);
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const finished = await codeGenerator.runJobStep(job);
+      if (!finished) {
+        // The next step starts with a fresh set of attempts
+        await storage.updateGenerationJob(job.id, {
+          status: "pending",
+          attempts: 0,
+          lockedBy: null,
+          lockedAt: null,
+          runAfter: new Date(),
+        });
+      }
+    } catch (error: any) {
+      console.error(`Generation job ${job.id} failed:`, error);
+      if (job.attempts < MAX_ATTEMPTS) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1);
+        await storage.updateGenerationJob(job.id, {
+          status: "pending",
+          errorMessage: error.message,
+          lockedBy: null,
+          lockedAt: null,
+          runAfter: new Date(Date.now() + delay),
+        });
+        await codeGenerator.recordEvent(job.id, null, "retrying", `${error.message} (retrying in ${delay / 1000}s)`);
+      } else {
+        await this.fail(job, error.message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async fail(job: ModuleGenerationJob, message: string): Promise<void> {
+    await storage.updateGenerationJob(job.id, {
+      status: "failed",
+      errorMessage: message,
+      lockedBy: null,
+      lockedAt: null,
+    });
+    await codeGenerator.recordEvent(job.id, null, "failed", message);
+  }
+}
+
+export const generationWorker = new GenerationWorker();
@@ -0,0 +1,258 @@
+import { sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  TENANT_COLUMN,
+  columnDefault,
+  sqlString,
+  enumTypeName,
+  tenantIndexName,
+  type EntityDefinition,
+  type FieldDefinition,
+  type ModuleBlueprint,
+} from "./blueprint";
+import { entityFields, findForeignKey, orderByDependencies, planRelationships, type ForeignKey } from "./relationships";
+
+const UP_MARKER = "-- migrate:up";
+const DOWN_MARKER = "-- migrate:down";
+
+const TENANT_COLUMN_DEFINITION = `"${TENANT_COLUMN}" integer NOT NULL REFERENCES "schools"("id") ON DELETE CASCADE`;
+
+export interface Migration {
+  up: string;
+  down: string;
+}
+
+/**
+ * Load the columns of the given tables that already exist in the database
+ */
+export async function loadExistingColumns(tableNames: string[]): Promise<Map<string, Set<string>>> {
+  const existing = new Map<string, Set<string>>();
+  if (tableNames.length === 0) return existing;
+
+  const result: any = await db.execute(
+    sql`
+      SELECT table_name, column_name FROM information_schema.columns
+      WHERE table_schema = 'public'
+      AND table_name IN (${sql.join(tableNames.map(name => sql`${name}`), sql`, `)})
+    `
+  );
+
+  for (const row of result.rows ?? []) {
+    if (!existing.has(row.table_name)) {
+      existing.set(row.table_name, new Set());
+    }
+    existing.get(row.table_name)!.add(row.column_name);
+  }
+  return existing;
+}
+
+/**
+ * Load the values of the given enum types that already exist in the database
+ */
+export async function loadExistingEnums(typeNames: string[]): Promise<Map<string, string[]>> {
+  const existing = new Map<string, string[]>();
+  if (typeNames.length === 0) return existing;
+
+  const result: any = await db.execute(
+    sql`
+      SELECT t.typname AS type_name, e.enumlabel AS value FROM pg_type t
+      JOIN pg_enum e ON e.enumtypid = t.oid
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      WHERE n.nspname = 'public'
+      AND t.typname IN (${sql.join(typeNames.map(name => sql`${name}`), sql`, `)})
+      ORDER BY e.enumsortorder
+    `
+  );
+
+  for (const row of result.rows ?? []) {
+    existing.set(row.type_name, [...(existing.get(row.type_name) ?? []), row.value]);
+  }
+  return existing;
+}
+
+/**
+ * Names of the enum types the blueprint's fields use
+ */
+export function blueprintEnumTypes(blueprint: ModuleBlueprint): string[] {
+  return blueprint.entities.flatMap(entity =>
+    entity.fields.filter(field => field.type === "enum").map(field => enumTypeName(entity, field))
+  );
+}
+
+/**
+ * Build CREATE TABLE / ALTER TABLE statements for the blueprint's entities,
+ * together with the statements that reverse them
+ */
+export function buildMigration(
+  blueprint: ModuleBlueprint,
+  existingColumns: Map<string, Set<string>>,
+  existingEnums: Map<string, string[]>
+): Migration {
+  const up: string[] = [];
+  const down: string[] = [];
+  const dropTypes: string[] = [];
+  const plan = planRelationships(blueprint);
+
+  // Enum types come first and are dropped after the tables that use them. Types an
+  // earlier migration created only get their new values, and are left for it to drop.
+  for (const entity of blueprint.entities) {
+    for (const field of entity.fields.filter(f => f.type === "enum")) {
+      const typeName = enumTypeName(entity, field);
+      const type = quoteIdentifier(typeName);
+      const existingValues = existingEnums.get(typeName);
+      if (!existingValues) {
+        up.push(`CREATE TYPE ${type} AS ENUM (${field.enumValues!.map(sqlString).join(", ")});`);
+        dropTypes.push(`DROP TYPE IF EXISTS ${type};`);
+        continue;
+      }
+
+      // PostgreSQL cannot remove enum values, so added values stay on rollback
+      for (const value of field.enumValues!.filter(v => !existingValues.includes(v))) {
+        up.push(`ALTER TYPE ${type} ADD VALUE IF NOT EXISTS ${sqlString(value)};`);
+      }
+    }
+  }
+
+  for (const entity of orderByDependencies(blueprint, plan)) {
+    const table = quoteIdentifier(entity.tableName);
+    const columns = existingColumns.get(entity.tableName);
+
+    const fields = entityFields(entity, plan);
+    const tenantIndex = `CREATE INDEX IF NOT EXISTS ${quoteIdentifier(tenantIndexName(entity.tableName))} ON ${table} (${quoteIdentifier(TENANT_COLUMN)});`;
+    const definition = (field: FieldDefinition) => {
+      const foreignKey = findForeignKey(plan, entity, field.name);
+      const column = columnDefinition(field, entity);
+      return foreignKey ? `${column} ${referenceClause(foreignKey)}` : column;
+    };
+
+    if (!columns) {
+      const definitions: string[] = [];
+      for (const field of fields) {
+        definitions.push(`  ${definition(field)}`);
+        if (field.name === "id") {
+          definitions.push(`  ${TENANT_COLUMN_DEFINITION}`);
+        }
+      }
+      up.push(`CREATE TABLE ${table} (\n${definitions.join(",\n")}\n);`);
+      up.push(tenantIndex);
+      down.unshift(`DROP TABLE IF EXISTS ${table};`);
+      continue;
+    }
+
+    for (const field of fields) {
+      if (columns.has(field.name)) continue;
+      up.push(`ALTER TABLE ${table} ADD COLUMN ${definition(field)};`);
+      down.unshift(`ALTER TABLE ${table} DROP COLUMN IF EXISTS ${quoteIdentifier(field.name)};`);
+    }
+
+    if (!columns.has(TENANT_COLUMN)) {
+      up.push(`ALTER TABLE ${table} ADD COLUMN ${TENANT_COLUMN_DEFINITION};`);
+      up.push(tenantIndex);
+      down.unshift(`ALTER TABLE ${table} DROP COLUMN IF EXISTS ${quoteIdentifier(TENANT_COLUMN)};`);
+    }
+  }
+
+  for (const joinTable of plan.joinTables) {
+    if (existingColumns.has(joinTable.tableName)) continue;
+
+    const table = quoteIdentifier(joinTable.tableName);
+    const definitions = [joinTable.left, joinTable.right].map(end => {
+      const column = columnDefinition({ name: end.field, ...end.target.keyField, required: true });
+      return `  ${column} REFERENCES ${quoteIdentifier(end.target.tableName)}("id") ON DELETE CASCADE`;
+    });
+    definitions.push(`  PRIMARY KEY (${quoteIdentifier(joinTable.left.field)}, ${quoteIdentifier(joinTable.right.field)})`);
+    up.push(`CREATE TABLE ${table} (\n${definitions.join(",\n")}\n);`);
+    down.unshift(`DROP TABLE IF EXISTS ${table};`);
+  }
+
+  return { up: up.join("\n\n"), down: [...down, ...dropTypes].join("\n") };
+}
+
+/**
+ * Rename the blueprint's tables and their tenant indexes out of the way instead of
+ * dropping them, so the data stays available after the module is uninstalled
+ */
+export function buildArchiveSql(blueprint: ModuleBlueprint, suffix: string): string {
+  const rename = (kind: "TABLE" | "INDEX", name: string) =>
+    `ALTER ${kind} IF EXISTS ${quoteIdentifier(name)} RENAME TO ${quoteIdentifier(`${name}_${suffix}`)};`;
+
+  const statements: string[] = [];
+  for (const entity of blueprint.entities) {
+    statements.push(rename("TABLE", entity.tableName));
+    statements.push(rename("INDEX", tenantIndexName(entity.tableName)));
+  }
+  for (const joinTable of planRelationships(blueprint).joinTables) {
+    statements.push(rename("TABLE", joinTable.tableName));
+  }
+  return statements.join("\n");
+}
+
+/**
+ * Serialize a migration into the artifact format shown to reviewers
+ */
+export function formatMigration(moduleName: string, migration: Migration): string {
+  return `-- ${moduleName} migration\n${UP_MARKER}\n${migration.up}\n\n${DOWN_MARKER}\n${migration.down}\n`;
+}
+
+/**
+ * Split a migration artifact back into its up and down statements
+ */
+export function parseMigration(code: string): Migration {
+  const upIndex = code.indexOf(UP_MARKER);
+  const downIndex = code.indexOf(DOWN_MARKER);
+  if (upIndex === -1 || downIndex === -1 || downIndex < upIndex) {
+    throw new Error("Migration artifact is missing its migrate:up/migrate:down sections");
+  }
+
+  return {
+    up: code.slice(upIndex + UP_MARKER.length, downIndex).trim(),
+    down: code.slice(downIndex + DOWN_MARKER.length).trim(),
+  };
+}
+
+// Mirrors the column builders emitted by CodeGeneratorService.generateSchemaCode
+function columnDefinition(field: FieldDefinition, entity?: EntityDefinition): string {
+  let definition = `${quoteIdentifier(field.name)} ${columnType(field, entity)}${field.array ? "[]" : ""}`;
+
+  if (field.name === "id") {
+    definition += " PRIMARY KEY";
+  }
+  if (field.required && field.name !== "id") {
+    definition += " NOT NULL";
+  }
+  if (field.unique) {
+    definition += " UNIQUE";
+  }
+
+  const defaultValue = columnDefault(field);
+  if (defaultValue) {
+    definition += ` DEFAULT ${defaultValue}`;
+  }
+
+  return definition;
+}
+
+function columnType(field: FieldDefinition, entity?: EntityDefinition): string {
+  switch (field.type) {
+    case "varchar":
+      return field.length ? `varchar(${field.length})` : "varchar";
+    case "numeric":
+      if (field.precision === undefined) return "numeric";
+      return field.scale === undefined ? `numeric(${field.precision})` : `numeric(${field.precision}, ${field.scale})`;
+    case "enum":
+      return quoteIdentifier(enumTypeName(entity!, field));
+    case "user":
+      return "varchar";
+    default:
+      return field.type;
+  }
+}
+
+function referenceClause(foreignKey: ForeignKey): string {
+  const onDelete = foreignKey.field.required ? "CASCADE" : "SET NULL";
+  return `REFERENCES ${quoteIdentifier(foreignKey.target.tableName)}("id") ON DELETE ${onDelete}`;
+}
+
+function quoteIdentifier(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,185 @@
+import { createHash } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { kebabCase, type ModuleBlueprint } from "./blueprint";
+import type { ArtifactSource } from "./artifactApplier";
+import type { GenerationArtifact, GenerationStep, ModuleGenerationJob } from "@shared/schema";
+
+export const MODULE_BUNDLE_FORMAT = "smartgenedux-module";
+
+// Bumped when the bundle layout changes; older versions stay importable
+export const MODULE_BUNDLE_VERSION = 1;
+
+// Generation step that produces each artifact file type
+const ARTIFACT_STEPS: Record<string, GenerationStep> = {
+  schema: "schema",
+  migration: "migration",
+  storage: "storage",
+  route: "routes",
+  component: "frontend",
+  test: "tests",
+};
+
+// Directories a generated file can live in
+const GENERATED_ROOTS = ["server/", "shared/", "client/src/", "migrations/"];
+
+// Bundles come from other instances, so their paths must stay inside the generated directories
+const bundlePathSchema = z.string().min(1).refine(isGeneratedPath, {
+  message: `Must be a relative path under ${GENERATED_ROOTS.join(", ")} without . or .. segments`,
+});
+
+const bundleFileSchema = z.object({
+  filePath: bundlePathSchema,
+  fileType: z.string().refine(type => type in ARTIFACT_STEPS, { message: "Unknown artifact type" }),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export const moduleBundleSchema = z.object({
+  manifest: z.object({
+    format: z.literal(MODULE_BUNDLE_FORMAT),
+    version: z.number().int().positive(),
+    moduleName: z.string().min(1),
+    description: z.string(),
+    revision: z.number().int().positive(),
+    sourceJobId: z.number().int(),
+    exportedAt: z.string(),
+    // Every artifact and migration, in the order they are applied
+    files: z.array(bundleFileSchema).min(1),
+  }),
+  blueprint: z.unknown(),
+  artifacts: z.array(z.object({
+    filePath: bundlePathSchema,
+    fileType: z.string(),
+    generatedCode: z.string(),
+  })),
+  // Migration files with their -- migrate:up / -- migrate:down sections
+  migrations: z.array(z.object({
+    filePath: bundlePathSchema,
+    sql: z.string(),
+  })),
+});
+
+export type ModuleBundle = z.infer<typeof moduleBundleSchema>;
+
+/**
+ * A bundle that cannot be exported or imported, with the HTTP status to report
+ */
+export class ModuleBundleError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "ModuleBundleError";
+  }
+}
+
+/**
+ * Package a generated job as a portable bundle: its blueprint, artifacts and
+ * migration SQL, with a manifest listing a checksum for every file
+ */
+export function buildModuleBundle(job: ModuleGenerationJob, artifacts: GenerationArtifact[]): ModuleBundle {
+  const blueprint = job.moduleBlueprint as ModuleBlueprint | null;
+  if (!blueprint || artifacts.length === 0) {
+    throw new ModuleBundleError(400, "Only jobs with a blueprint and generated files can be exported");
+  }
+
+  return {
+    manifest: {
+      format: MODULE_BUNDLE_FORMAT,
+      version: MODULE_BUNDLE_VERSION,
+      moduleName: blueprint.moduleName,
+      description: blueprint.description,
+      revision: job.revision,
+      sourceJobId: job.id,
+      exportedAt: new Date().toISOString(),
+      files: artifacts.map(a => ({ filePath: a.filePath, fileType: a.fileType, sha256: checksum(a.generatedCode) })),
+    },
+    blueprint,
+    artifacts: artifacts
+      .filter(a => a.fileType !== "migration")
+      .map(({ filePath, fileType, generatedCode }) => ({ filePath, fileType, generatedCode })),
+    migrations: artifacts
+      .filter(a => a.fileType === "migration")
+      .map(a => ({ filePath: a.filePath, sql: a.generatedCode })),
+  };
+}
+
+/**
+ * File name a bundle is downloaded as, e.g. attendance-management-v2.module.json
+ */
+export function bundleFileName(bundle: ModuleBundle): string {
+  return `${kebabCase(bundle.manifest.moduleName)}-v${bundle.manifest.revision}.module.json`;
+}
+
+/**
+ * Check an uploaded bundle's layout, version and checksums
+ */
+export function parseModuleBundle(raw: unknown): ModuleBundle {
+  const result = moduleBundleSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join(".") || "bundle"}: ${issue.message}`);
+    throw new ModuleBundleError(400, `Not a valid module bundle:\n${issues.join("\n")}`);
+  }
+
+  const bundle = result.data;
+  if (bundle.manifest.version > MODULE_BUNDLE_VERSION) {
+    throw new ModuleBundleError(
+      400,
+      `Bundle version ${bundle.manifest.version} was exported by a newer SmartGenEduX; this instance reads up to version ${MODULE_BUNDLE_VERSION}`
+    );
+  }
+
+  if (bundle.artifacts.length + bundle.migrations.length !== bundle.manifest.files.length) {
+    throw new ModuleBundleError(422, "Bundle files do not match its manifest");
+  }
+  const files = bundleFiles(bundle);
+  bundle.manifest.files.forEach((entry, i) => {
+    const file = files[i];
+    if (!file || file.filePath !== entry.filePath || file.fileType !== entry.fileType || checksum(file.generatedCode) !== entry.sha256) {
+      throw new ModuleBundleError(422, `Bundle file ${entry.filePath} does not match its manifest checksum`);
+    }
+  });
+
+  return bundle;
+}
+
+/**
+ * The bundle's artifacts and migrations in manifest order, grouped by the generation step that produced them
+ */
+export function bundleArtifactsByStep(bundle: ModuleBundle): Map<GenerationStep, ArtifactSource[]> {
+  const byStep = new Map<GenerationStep, ArtifactSource[]>();
+  for (const file of bundleFiles(bundle)) {
+    const step = ARTIFACT_STEPS[file.fileType];
+    byStep.set(step, [...(byStep.get(step) ?? []), file]);
+  }
+  return byStep;
+}
+
+// Artifacts and migrations merged back into manifest order
+function bundleFiles(bundle: ModuleBundle): ArtifactSource[] {
+  const artifacts = [...bundle.artifacts];
+  const migrations = [...bundle.migrations];
+  const files: ArtifactSource[] = [];
+
+  for (const entry of bundle.manifest.files) {
+    if (entry.fileType === "migration") {
+      const migration = migrations.shift();
+      if (migration) files.push({ filePath: migration.filePath, fileType: "migration", generatedCode: migration.sql });
+    } else {
+      const artifact = artifacts.shift();
+      if (artifact) files.push(artifact);
+    }
+  }
+  return files;
+}
+
+function isGeneratedPath(filePath: string): boolean {
+  return (
+    !filePath.includes("\\") &&
+    path.posix.normalize(filePath) === filePath &&
+    !filePath.split("/").some(segment => segment === "." || segment === "..") &&
+    GENERATED_ROOTS.some(root => filePath.startsWith(root))
+  );
+}
+
+function checksum(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
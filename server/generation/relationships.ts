@@ -0,0 +1,260 @@
+import { getTableColumns, getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+import {
+  TENANT_FIELD,
+  tenantFields,
+  type EntityDefinition,
+  type FieldDefinition,
+  type ModuleBlueprint,
+} from "./blueprint";
+
+/**
+ * A table at one end of a relationship: either an entity of the blueprint
+ * or a table that already exists in shared/schema.ts
+ */
+export interface TableReference {
+  tableName: string;
+  // Name of the table's export in shared/schema.ts
+  identifier: string;
+  // Singular camelCase name, used for default foreign key and relation names
+  singular: string;
+  // TypeScript type of the table's rows
+  typeName: string;
+  // Column type needed to reference the table's id
+  keyField: Pick<FieldDefinition, "type" | "length">;
+  entity?: EntityDefinition;
+}
+
+export interface ForeignKey {
+  owner: EntityDefinition;
+  field: FieldDefinition;
+  target: TableReference;
+  // Only set when the owner references the same table more than once
+  relationName?: string;
+}
+
+export interface JoinTable {
+  tableName: string;
+  left: { field: string; target: TableReference };
+  right: { field: string; target: TableReference };
+}
+
+export interface RelationshipPlan {
+  foreignKeys: ForeignKey[];
+  joinTables: JoinTable[];
+  errors: string[];
+}
+
+/**
+ * Resolve the blueprint's relationships into foreign key columns and join tables.
+ *
+ * one-to-many and many-to-one put a foreign key on the "many" side, which has to
+ * be an entity of the blueprint. many-to-many gets a join table with a composite key.
+ */
+export function planRelationships(blueprint: ModuleBlueprint): RelationshipPlan {
+  const foreignKeys: ForeignKey[] = [];
+  const joinTables: JoinTable[] = [];
+  const errors: string[] = [];
+
+  blueprint.relationships.forEach((relationship, i) => {
+    const from = resolveTable(blueprint, relationship.from);
+    const to = resolveTable(blueprint, relationship.to);
+    if (typeof from === "string" || typeof to === "string") {
+      errors.push(`relationships.${i}: ${typeof from === "string" ? from : to}`);
+      return;
+    }
+
+    if (relationship.type === "many-to-many") {
+      if (!from.entity && !to.entity) {
+        errors.push(`relationships.${i}: at least one side of a many-to-many relationship must be an entity of this module`);
+        return;
+      }
+      const leftField = `${from.singular}Id`;
+      const rightField = from.tableName === to.tableName ? `related${upperFirst(to.singular)}Id` : `${to.singular}Id`;
+      joinTables.push({
+        tableName: relationship.joinTable ?? `${from.tableName}_${to.tableName}`,
+        left: { field: leftField, target: from },
+        right: { field: rightField, target: to },
+      });
+      return;
+    }
+
+    const [many, target] = relationship.type === "many-to-one" ? [from, to] : [to, from];
+    const owner = many.entity;
+    if (!owner) {
+      errors.push(`relationships.${i}: the "many" side (${many.tableName}) must be an entity of this module`);
+      return;
+    }
+
+    const fieldName = relationship.foreignKey ?? `${target.singular}Id`;
+    // Every generated table already references its school
+    if (fieldName === TENANT_FIELD && target.identifier === "schools") return;
+    if (fieldName === TENANT_FIELD) {
+      errors.push(`relationships.${i}.foreignKey: "${TENANT_FIELD}" is reserved for the school reference`);
+      return;
+    }
+    if (foreignKeys.some(fk => fk.owner === owner && fk.field.name === fieldName)) {
+      errors.push(`relationships.${i}: ${owner.name}.${fieldName} is used by more than one relationship`);
+      return;
+    }
+
+    const existing = owner.fields.find(field => field.name === fieldName);
+    if (existing && !matchesKey(existing, target.keyField)) {
+      errors.push(
+        `relationships.${i}: ${owner.name}.${fieldName} is ${existing.type} but references to ${target.tableName} must be ${target.keyField.type}`
+      );
+      return;
+    }
+
+    // Added references are nullable so they can be added to tables that already have rows
+    const field = existing ?? { name: fieldName, ...target.keyField, required: false };
+    foreignKeys.push({ owner, field, target });
+  });
+
+  // "user" fields are references to users.id without a declared relationship
+  const users = resolveTable(blueprint, "users");
+  for (const owner of blueprint.entities) {
+    for (const field of owner.fields) {
+      if (field.type !== "user" || typeof users === "string") continue;
+      if (foreignKeys.some(fk => fk.owner === owner && fk.field.name === field.name)) continue;
+      foreignKeys.push({ owner, field, target: users });
+    }
+  }
+
+  // Drizzle needs a relation name to tell apart several references between the same two tables
+  for (const fk of foreignKeys) {
+    const siblings = foreignKeys.filter(other => other.owner === fk.owner && other.target.tableName === fk.target.tableName);
+    if (siblings.length > 1) {
+      fk.relationName = `${fk.owner.tableName}_${fk.field.name}`;
+    }
+  }
+
+  const reservedTables = new Set(tableExports().map(([, table]) => getTableName(table)));
+  const tableNames = new Set(blueprint.entities.map(entity => entity.tableName));
+  for (const joinTable of joinTables) {
+    if (joinTable.tableName.length > 63) {
+      errors.push(`relationships: join table name "${joinTable.tableName}" is longer than 63 characters, set joinTable`);
+    } else if (reservedTables.has(joinTable.tableName) || tableNames.has(joinTable.tableName)) {
+      errors.push(`relationships: join table "${joinTable.tableName}" clashes with an existing table, set joinTable`);
+    }
+    tableNames.add(joinTable.tableName);
+  }
+
+  return { foreignKeys, joinTables, errors };
+}
+
+/**
+ * The columns generated for an entity: its own fields plus foreign keys added by relationships
+ */
+export function entityFields(entity: EntityDefinition, plan: RelationshipPlan): FieldDefinition[] {
+  const added = plan.foreignKeys
+    .filter(fk => fk.owner === entity && !entity.fields.includes(fk.field))
+    .map(fk => fk.field);
+  return [...tenantFields(entity), ...added];
+}
+
+export function findForeignKey(plan: RelationshipPlan, entity: EntityDefinition, fieldName: string): ForeignKey | undefined {
+  return plan.foreignKeys.find(fk => fk.owner === entity && fk.field.name === fieldName);
+}
+
+/**
+ * Entities ordered so referenced tables are created before the tables that reference them
+ */
+export function orderByDependencies(blueprint: ModuleBlueprint, plan: RelationshipPlan): EntityDefinition[] {
+  const ordered: EntityDefinition[] = [];
+  const visiting = new Set<EntityDefinition>();
+
+  const visit = (entity: EntityDefinition) => {
+    if (ordered.includes(entity) || visiting.has(entity)) return;
+    visiting.add(entity);
+    for (const fk of plan.foreignKeys) {
+      if (fk.owner === entity && fk.target.entity && fk.target.entity !== entity) {
+        visit(fk.target.entity);
+      }
+    }
+    visiting.delete(entity);
+    ordered.push(entity);
+  };
+
+  blueprint.entities.forEach(visit);
+  return ordered;
+}
+
+/**
+ * camelCase name for a relation pointing at the rows of a table
+ */
+export function relationKey(tableName: string): string {
+  return tableName.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function resolveTable(blueprint: ModuleBlueprint, tableName: string): TableReference | string {
+  const entity = blueprint.entities.find(e => e.tableName === tableName);
+  if (entity) {
+    const id = tenantFields(entity).find(field => field.name === "id")!;
+    return {
+      tableName,
+      identifier: tableName,
+      singular: lowerFirst(entity.name),
+      typeName: entity.name,
+      keyField: { type: id.type === "serial" ? "integer" : id.type, length: id.length },
+      entity,
+    };
+  }
+
+  const existing = tableExports().find(([, table]) => getTableName(table) === tableName);
+  if (!existing) {
+    return `unknown table "${tableName}"`;
+  }
+
+  const [identifier, table] = existing;
+  const id = (getTableColumns(table) as Record<string, any>).id;
+  const keyField = id ? keyFieldFor(id.getSQLType()) : undefined;
+  if (!keyField) {
+    return `table "${tableName}" has no id column that can be referenced`;
+  }
+
+  return {
+    tableName,
+    identifier,
+    singular: singularize(identifier),
+    typeName: `typeof ${identifier}.$inferSelect`,
+    keyField,
+  };
+}
+
+function tableExports(): Array<[string, PgTable]> {
+  return Object.entries(schema as Record<string, unknown>).filter((entry): entry is [string, PgTable] => is(entry[1], PgTable));
+}
+
+function keyFieldFor(sqlType: string): Pick<FieldDefinition, "type" | "length"> | undefined {
+  const varchar = sqlType.match(/^varchar(?:\((\d+)\))?$/);
+  if (varchar) {
+    return { type: "varchar", length: varchar[1] ? Number(varchar[1]) : undefined };
+  }
+  if (sqlType === "serial" || sqlType === "integer") return { type: "integer" };
+  if (sqlType === "text") return { type: "text" };
+  if (sqlType === "uuid") return { type: "uuid" };
+  return undefined;
+}
+
+function matchesKey(field: FieldDefinition, key: Pick<FieldDefinition, "type" | "length">): boolean {
+  if (key.type === "varchar" || key.type === "text") {
+    return field.type === "varchar" || field.type === "text" || field.type === "user";
+  }
+  return field.type === key.type;
+}
+
+function singularize(name: string): string {
+  if (name.endsWith("ies")) return name.slice(0, -3) + "y";
+  if (name.endsWith("s") && !name.endsWith("ss")) return name.slice(0, -1);
+  return name;
+}
+
+function lowerFirst(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+function upperFirst(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
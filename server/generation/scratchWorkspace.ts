@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { applyArtifact, type ArtifactSource } from "./artifactApplier";
+import { resolveWorkspacePath } from "./workspacePath";
+
+// Never copied into the scratch workspace; node_modules is linked instead
+const SKIPPED_ENTRIES = new Set(["node_modules", ".git", "dist", "coverage"]);
+
+/**
+ * A temporary copy of the workspace with a job's artifacts applied
+ */
+export interface ScratchWorkspace {
+  root: string;
+  // Artifacts that could not be merged into their target file
+  mergeErrors: Array<{ filePath: string; message: string }>;
+  remove(): Promise<void>;
+}
+
+/**
+ * Copy the workspace to a temporary directory and apply the artifacts there,
+ * leaving the real workspace untouched
+ */
+export async function createScratchWorkspace(prefix: string, artifacts: ArtifactSource[]): Promise<ScratchWorkspace> {
+  const root = process.cwd();
+  const scratch = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
+  const remove = () => fs.rm(scratch, { recursive: true, force: true });
+
+  try {
+    for (const entry of await fs.readdir(root)) {
+      if (SKIPPED_ENTRIES.has(entry)) continue;
+      await fs.cp(path.join(root, entry), path.join(scratch, entry), { recursive: true });
+    }
+    await fs.symlink(path.join(root, "node_modules"), path.join(scratch, "node_modules"), "dir");
+
+    const mergeErrors: ScratchWorkspace["mergeErrors"] = [];
+    const contents = new Map<string, string>();
+    for (const artifact of artifacts) {
+      const filePath = resolveWorkspacePath(scratch, artifact.filePath);
+      if (!filePath) {
+        mergeErrors.push({ filePath: artifact.filePath, message: "Refusing to write outside the workspace" });
+        continue;
+      }
+      const existing = contents.get(artifact.filePath) ?? (await fs.readFile(filePath, "utf-8").catch(() => ""));
+      try {
+        contents.set(artifact.filePath, applyArtifact(existing, artifact));
+      } catch (error: any) {
+        mergeErrors.push({ filePath: artifact.filePath, message: error.message });
+      }
+    }
+
+    for (const [filePath, content] of Array.from(contents.entries())) {
+      const absolutePath = resolveWorkspacePath(scratch, filePath)!;
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content, "utf-8");
+    }
+
+    return { root: scratch, mergeErrors, remove };
+  } catch (error) {
+    await remove();
+    throw error;
+  }
+}
@@ -0,0 +1,408 @@
+import {
+  expandRoutes,
+  kebabCase,
+  TENANT_FIELD,
+  type EntityDefinition,
+  type FieldDefinition,
+  type ModuleBlueprint,
+  type RouteDefinition,
+} from "./blueprint";
+import { formFields } from "./formFields";
+import { findForeignKey, planRelationships, type RelationshipPlan } from "./relationships";
+
+// Test users: one per school, their role is chosen per request
+const USER_A = "test-user-a";
+const USER_B = "test-user-b";
+
+interface CrudRoutes {
+  list?: RouteDefinition;
+  create?: RouteDefinition;
+  get?: RouteDefinition;
+  update?: RouteDefinition;
+  remove?: RouteDefinition;
+}
+
+/**
+ * Path of the integration test generated for a module. These suites need a database URL
+ * and session secret to load, so they live outside server/tests, which `npm test` runs,
+ * and only testRunner runs them
+ */
+export function moduleTestPath(blueprint: ModuleBlueprint): string {
+  return `server/generated-tests/${kebabCase(blueprint.moduleName)}.test.ts`;
+}
+
+/**
+ * Build a node:test suite that starts the API with the module's storage methods
+ * backed by in-memory tables and exercises every entity's CRUD routes, input
+ * validation and school isolation
+ */
+export function buildModuleTests(blueprint: ModuleBlueprint): string {
+  const plan = planRelationships(blueprint);
+
+  let code = `// ${blueprint.moduleName} API tests, generated with the module.
+// The API runs with the module's storage methods replaced by in-memory tables,
+// so the tests never touch the database.
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "../routes";
+import { storage } from "../storage";
+import { pool } from "../db";
+import { createAccessToken } from "../auth/tokens";
+import { COOKIE_NAMES } from "../auth/cookies";
+
+type Row = Record<string, any>;
+
+const SCHOOL_A = 1;
+const SCHOOL_B = 2;
+const users: Record<string, number> = { "${USER_A}": SCHOOL_A, "${USER_B}": SCHOOL_B };
+
+// Rows of one table, scoped by school like DatabaseStorage; schoolId undefined = super admin
+function memoryTable() {
+  const rows: Row[] = [];
+  let nextId = 1;
+  const visible = (row: Row, schoolId?: number) => schoolId === undefined || row.${TENANT_FIELD} === schoolId;
+  const find = (id: number, schoolId?: number) => rows.find(row => row.id === id && visible(row, schoolId));
+
+  return {
+    list: async (schoolId?: number) => rows.filter(row => visible(row, schoolId)).reverse(),
+    listBy: async (field: string, value: unknown, schoolId?: number) =>
+      rows.filter(row => row[field] === value && visible(row, schoolId)).reverse(),
+    get: async (id: number, schoolId?: number) => find(id, schoolId),
+    create: async (data: Row) => {
+      const row = { ...data, id: nextId++ };
+      rows.push(row);
+      return row;
+    },
+    update: async (id: number, data: Row, schoolId?: number) => {
+      const row = find(id, schoolId);
+      return row ? Object.assign(row, data) : undefined;
+    },
+    remove: async (id: number, schoolId?: number) => {
+      const row = find(id, schoolId);
+      if (!row) return false;
+      rows.splice(rows.indexOf(row), 1);
+      return true;
+    },
+  };
+}
+
+// The role of the test users for the next request
+let currentRole = "school_admin";
+
+`;
+
+  for (const entity of blueprint.entities) {
+    code += `const ${tableVariable(entity)} = memoryTable();\n`;
+  }
+
+  code += `\nObject.assign(storage, {\n`;
+  code += `  getUser: async (id: string) => users[id] && {\n`;
+  code += `    id,\n`;
+  code += `    email: \`\${id}@example.com\`,\n`;
+  code += `    role: currentRole,\n`;
+  code += `    schoolId: currentRole === "super_admin" ? null : users[id],\n`;
+  code += `    isActive: true,\n`;
+  code += `  },\n`;
+  for (const entity of blueprint.entities) {
+    const table = tableVariable(entity);
+    code += `  get${entity.name}s: (schoolId?: number) => ${table}.list(schoolId),\n`;
+    code += `  get${entity.name}: (id: number, schoolId?: number) => ${table}.get(id, schoolId),\n`;
+    code += `  create${entity.name}: (data: Row) => ${table}.create(data),\n`;
+    code += `  update${entity.name}: (id: number, data: Row, schoolId?: number) => ${table}.update(id, data, schoolId),\n`;
+    code += `  delete${entity.name}: (id: number, schoolId?: number) => ${table}.remove(id, schoolId),\n`;
+    if (entity.ownerField) {
+      const owner = entity.ownerField;
+      code += `  get${entity.name}sBy${upperFirst(owner)}: (value: string, schoolId?: number) => ${table}.listBy("${owner}", value, schoolId),\n`;
+    }
+  }
+  code += `});\n\n`;
+
+  code += `let server: Server;
+let baseUrl = "";
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = \`http://127.0.0.1:\${(server.address() as AddressInfo).port}\`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await pool.end();
+});
+
+async function request(method: string, path: string, user: string, role: string, body?: unknown) {
+  currentRole = role;
+  const token = await createAccessToken({
+    sub: user,
+    email: \`\${user}@example.com\`,
+    role,
+    school_id: role === "super_admin" ? null : users[user],
+  });
+  const response = await fetch(baseUrl + path, {
+    method,
+    headers: { "Content-Type": "application/json", Cookie: \`\${COOKIE_NAMES.ACCESS_TOKEN}=\${token}\` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  let json: any;
+  try {
+    json = text ? JSON.parse(text) : undefined;
+  } catch {
+    json = text;
+  }
+  return { status: response.status, body: json };
+}
+`;
+
+  for (const entity of blueprint.entities) {
+    code += `\n${entityTests(blueprint, plan, entity)}`;
+  }
+  return code;
+}
+
+function entityTests(blueprint: ModuleBlueprint, plan: RelationshipPlan, entity: EntityDefinition): string {
+  const routes = crudRoutes(blueprint, entity);
+  const fields = formFields(entity, plan);
+  const name = entity.name;
+
+  const unsupported = fields.find(field => field.required && field.validation?.pattern !== undefined);
+  const skip = unsupported
+    ? `no sample value can be made up for ${unsupported.name}, which has to match a pattern`
+    : !routes.create
+      ? "the module has no create route for it"
+      : undefined;
+  if (skip) {
+    return `test("${name}: API", { skip: ${JSON.stringify(skip)} }, () => {});\n`;
+  }
+
+  const sample = sampleRow(entity, plan, fields);
+  const create = routes.create!;
+  const call = (route: RouteDefinition, path: string, user: string, body?: string) =>
+    `request("${route.method}", ${path}, "${user}", "${actorRole(route)}"${body ? `, ${body}` : ""})`;
+  const itemPath = (route: RouteDefinition) => `\`${route.path.replace(/:[A-Za-z0-9_]+$/, "${id}")}\``;
+
+  let code = `const sample${name} = ${JSON.stringify({ ...sample, [TENANT_FIELD]: "SCHOOL_A" }).replace('"SCHOOL_A"', "SCHOOL_A")};\n\n`;
+
+  // Create, list, get, update and delete as one school
+  const changed = updatableField(entity, fields);
+  code += `test("${name}: create, list, get, update and delete", async () => {\n`;
+  code += `  const created = await ${call(create, `"${create.path}"`, USER_A, `sample${name}`)};\n`;
+  code += `  assert.equal(created.status, 200, JSON.stringify(created.body));\n`;
+  code += `  const id = created.body.id;\n`;
+  if (routes.list) {
+    code += `\n  const list = await ${call(routes.list, `"${routes.list.path}"`, USER_A)};\n`;
+    code += `  assert.equal(list.status, 200);\n`;
+    code += `  assert.ok(list.body.some((row: Row) => row.id === id));\n`;
+  }
+  if (routes.get) {
+    code += `\n  const fetched = await ${call(routes.get, itemPath(routes.get), USER_A)};\n`;
+    code += `  assert.equal(fetched.status, 200);\n`;
+    code += `  assert.equal(fetched.body.id, id);\n`;
+  }
+  if (routes.update) {
+    const updates = changed ? JSON.stringify({ [changed.name]: sampleValue(changed, 2) }) : "{}";
+    code += `\n  const updated = await ${call(routes.update, itemPath(routes.update), USER_A, updates)};\n`;
+    code += `  assert.equal(updated.status, 200, JSON.stringify(updated.body));\n`;
+    if (changed) {
+      code += `  assert.deepEqual(updated.body.${changed.name}, ${JSON.stringify(sampleValue(changed, 2))});\n`;
+    }
+  }
+  if (routes.remove) {
+    code += `\n  const deleted = await ${call(routes.remove, itemPath(routes.remove), USER_A)};\n`;
+    code += `  assert.equal(deleted.status, 200);\n`;
+    if (routes.get) {
+      code += `  assert.equal((await ${call(routes.get, itemPath(routes.get), USER_A)}).status, 404);\n`;
+    }
+  }
+  code += `});\n\n`;
+
+  // Input validation
+  const required = fields.filter(field => field.required && field.default === undefined && !isForcedOwner(entity, create, field));
+  const mistyped = fields.find(field => field.type !== "jsonb");
+  if (required.length > 0 || mistyped) {
+    code += `test("${name}: invalid input is rejected", async () => {\n`;
+    if (required.length > 0) {
+      code += `  const missing = await ${call(create, `"${create.path}"`, USER_A, `{ ${TENANT_FIELD}: SCHOOL_A }`)};\n`;
+      code += `  assert.equal(missing.status, 400);\n`;
+    }
+    if (mistyped) {
+      code += `  const wrongType = await ${call(create, `"${create.path}"`, USER_A, `{ ...sample${name}, ${mistyped.name}: { invalid: true } }`)};\n`;
+      code += `  assert.equal(wrongType.status, 400);\n`;
+    }
+    code += `});\n\n`;
+  }
+
+  // Students are refused by the write routes that don't list them, declared or added
+  const refused = [routes.update, routes.remove].filter(
+    (route): route is RouteDefinition => !!route?.allowedRoles && !route.requiresSuperAdmin && !route.allowedRoles.includes("student")
+  );
+  if (refused.length > 0) {
+    code += `test("${name}: students cannot change or delete rows", async () => {\n`;
+    code += `  const created = await ${call(create, `"${create.path}"`, USER_A, `sample${name}`)};\n`;
+    code += `  assert.equal(created.status, 200, JSON.stringify(created.body));\n`;
+    code += `  const id = created.body.id;\n\n`;
+    for (const route of refused) {
+      const body = route.method === "PATCH" ? ", {}" : "";
+      code += `  assert.equal((await request("${route.method}", ${itemPath(route)}, "${USER_A}", "student"${body})).status, 403);\n`;
+    }
+    if (routes.get) {
+      code += `  assert.equal((await ${call(routes.get, itemPath(routes.get), USER_A)}).status, 200);\n`;
+    }
+    code += `});\n\n`;
+  }
+
+  // Another school must not reach the rows; routes only super admins can call see every school
+  const scoped = (route?: RouteDefinition) => route && !route.requiresSuperAdmin ? route : undefined;
+  const [list, get, update, remove] = [routes.list, routes.get, routes.update, routes.remove].map(scoped);
+  if (list || get || update || remove) {
+    code += `test("${name}: rows of one school are hidden from another", async () => {\n`;
+    code += `  const created = await ${call(create, `"${create.path}"`, USER_A, `sample${name}`)};\n`;
+    code += `  assert.equal(created.status, 200, JSON.stringify(created.body));\n`;
+    code += `  const id = created.body.id;\n\n`;
+    if (list) {
+      code += `  const list = await ${call(list, `"${list.path}"`, USER_B)};\n`;
+      code += `  assert.equal(list.status, 200);\n`;
+      code += `  assert.ok(!list.body.some((row: Row) => row.id === id));\n`;
+    }
+    if (get) {
+      code += `  assert.equal((await ${call(get, itemPath(get), USER_B)}).status, 404);\n`;
+    }
+    if (update) {
+      code += `  assert.equal((await ${call(update, itemPath(update), USER_B, "{}")}).status, 404);\n`;
+    }
+    if (remove) {
+      code += `  assert.equal((await ${call(remove, itemPath(remove), USER_B)}).status, 404);\n`;
+    }
+    if (routes.get) {
+      code += `  assert.equal((await ${call(routes.get, itemPath(routes.get), USER_A)}).status, 200);\n`;
+    }
+    code += `});\n`;
+  }
+
+  return code;
+}
+
+// The entity's routes for each CRUD operation, declared or added by expandRoutes
+function crudRoutes(blueprint: ModuleBlueprint, entity: EntityDefinition): CrudRoutes {
+  const routes = expandRoutes(blueprint).filter(r => r.entity === entity).map(r => r.route);
+  const find = (method: RouteDefinition["method"], item: boolean) =>
+    routes.find(route => route.method === method && /\/:[A-Za-z0-9_]+$/.test(route.path) === item);
+
+  return {
+    list: find("GET", false),
+    create: find("POST", false),
+    get: find("GET", true),
+    update: find("PATCH", true),
+    remove: find("DELETE", true),
+  };
+}
+
+// A role that may call the route without being limited to its own records
+function actorRole(route: RouteDefinition): string {
+  if (route.requiresSuperAdmin) return "super_admin";
+  if (!route.allowedRoles) return "school_admin";
+  const roles = route.allowedRoles.filter(role => role !== "super_admin");
+  return roles.find(role => !route.ownRecordsOnly?.includes(role)) ?? roles[0] ?? "super_admin";
+}
+
+// The create route fills in the owner for roles limited to their own records
+function isForcedOwner(entity: EntityDefinition, route: RouteDefinition, field: FieldDefinition): boolean {
+  return field.name === entity.ownerField && !!route.ownRecordsOnly?.includes(actorRole(route) as any);
+}
+
+/**
+ * Values for a row that passes the insert schema: every field the form shows,
+ * with cross-field rules satisfied by moving one side of each comparison
+ */
+function sampleRow(entity: EntityDefinition, plan: RelationshipPlan, fields: FieldDefinition[]): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (field.validation?.pattern !== undefined) continue;
+    const foreignKey = findForeignKey(plan, entity, field.name);
+    if (field.type === "user" || (foreignKey && foreignKey.target.keyField.type !== "integer")) {
+      row[field.name] = field.array ? [USER_A] : USER_A;
+    } else if (foreignKey) {
+      row[field.name] = field.array ? [1] : 1;
+    } else {
+      row[field.name] = sampleValue(field, 1);
+    }
+  }
+
+  for (const rule of entity.rules ?? []) {
+    const field = entity.fields.find(f => f.name === rule.field)!;
+    const shift = rule.operator.startsWith(">") ? 1 : rule.operator.startsWith("<") ? -1 : rule.operator === "!=" ? 1 : 0;
+    row[rule.field] = sampleValue(field, 1 + shift);
+  }
+  return row;
+}
+
+// A valid value for the field; different variants give different values
+function sampleValue(field: FieldDefinition, variant: number): unknown {
+  if (field.array) {
+    const count = Math.max(field.validation?.min ?? 1, 1);
+    return Array.from({ length: count }, (_, i) => sampleValue({ ...field, array: false, validation: undefined }, variant + i));
+  }
+
+  const validation = field.validation ?? {};
+  const min = validation.min;
+  const max = validation.max;
+  switch (field.type) {
+    case "integer":
+      return Math.min((min ?? 1) + variant, max ?? Number.MAX_SAFE_INTEGER);
+    case "numeric":
+      return Math.min((min ?? 1) + variant, max ?? Number.MAX_SAFE_INTEGER).toFixed(field.scale ?? 0);
+    case "boolean":
+      return variant % 2 === 1;
+    case "date":
+      return `2024-01-${String(10 + variant).padStart(2, "0")}`;
+    case "timestamp":
+      return `2024-01-${String(10 + variant).padStart(2, "0")}T09:00:00.000Z`;
+    case "enum":
+      return field.enumValues![variant % field.enumValues!.length];
+    case "uuid":
+      return `00000000-0000-4000-8000-${String(variant).padStart(12, "0")}`;
+    case "jsonb":
+      return { sample: variant };
+    case "user":
+      return USER_A;
+  }
+
+  switch (validation.format) {
+    case "email":
+      return `test${variant}@example.com`;
+    case "phone":
+      return `+1 555 010${variant}`;
+    case "url":
+      return `https://example.com/${variant}`;
+  }
+  const longest = Math.min(max ?? Infinity, field.length ?? Infinity);
+  return `${field.name} ${variant}`.padEnd(min ?? 0, "x").slice(0, longest);
+}
+
+// A plain field whose change can be checked after an update
+function updatableField(entity: EntityDefinition, fields: FieldDefinition[]): FieldDefinition | undefined {
+  const ruled = new Set((entity.rules ?? []).flatMap(rule => [rule.field, rule.otherField]));
+  return fields.find(field =>
+    !ruled.has(field.name) &&
+    field.name !== entity.ownerField &&
+    field.validation?.pattern === undefined &&
+    ["varchar", "text", "integer", "boolean", "enum", "date"].includes(field.type) &&
+    !field.array &&
+    (field.type !== "enum" || field.enumValues!.length > 1) &&
+    !field.name.endsWith("Id")
+  );
+}
+
+function tableVariable(entity: EntityDefinition): string {
+  return `${entity.name.charAt(0).toLowerCase()}${entity.name.slice(1)}Rows`;
+}
+
+function upperFirst(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
@@ -0,0 +1,59 @@
+import { execFile } from "child_process";
+import { storage } from "../storage";
+import { createScratchWorkspace } from "./scratchWorkspace";
+
+// Generated test suites start the whole API, so they get a generous limit
+const TEST_TIMEOUT_MS = 3 * 60 * 1000;
+
+// How much of the test output is kept for the deployment's error message
+const MAX_OUTPUT_LENGTH = 4000;
+
+export interface TestRunResult {
+  passed: boolean;
+  output: string;
+}
+
+export class TestRunnerService {
+  /**
+   * Run a job's generated test artifacts with node's test runner on a scratch copy
+   * of the workspace that has all of the job's artifacts applied.
+   * Returns null when the job has no tests.
+   */
+  async runJobTests(jobId: number): Promise<TestRunResult | null> {
+    const artifacts = (await storage.getJobArtifacts(jobId)).filter(a => a.fileType !== "migration");
+    const testFiles = artifacts.filter(a => a.fileType === "test").map(a => a.filePath);
+    if (testFiles.length === 0) return null;
+
+    const workspace = await createScratchWorkspace("vipudev-tests-", artifacts);
+    try {
+      if (workspace.mergeErrors.length > 0) {
+        return {
+          passed: false,
+          output: workspace.mergeErrors.map(e => `${e.filePath}: ${e.message}`).join("\n"),
+        };
+      }
+      return await this.run(workspace.root, testFiles);
+    } finally {
+      await workspace.remove();
+    }
+  }
+
+  private run(cwd: string, testFiles: string[]): Promise<TestRunResult> {
+    return new Promise(resolve => {
+      execFile(
+        process.execPath,
+        ["--import", "tsx", "--test", ...testFiles],
+        { cwd, env: { ...process.env, NODE_ENV: "test" }, timeout: TEST_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          let output = `${stdout}${stderr}`.trim();
+          if ((error as any)?.killed) {
+            output += `\nTests did not finish within ${TEST_TIMEOUT_MS / 1000}s`;
+          }
+          resolve({ passed: !error, output: output.slice(-MAX_OUTPUT_LENGTH) });
+        }
+      );
+    });
+  }
+}
+
+export const testRunner = new TestRunnerService();
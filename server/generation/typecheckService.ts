@@ -0,0 +1,99 @@
+import { execFile } from "child_process";
+import { storage } from "../storage";
+import { createScratchWorkspace } from "./scratchWorkspace";
+
+/**
+ * A compiler error, stored in generationArtifacts.diagnostics for the file it was reported in
+ */
+export interface ArtifactDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+}
+
+// The script that runs the compiler, relative to the workspace root
+const WORKER_SCRIPT = "server/generation/typecheckWorker.ts";
+
+// Compiling the workspace takes a while; this only catches a compiler that hangs
+const COMPILE_TIMEOUT_MS = 3 * 60 * 1000;
+
+export class TypecheckService {
+  /**
+   * Apply a job's artifacts to a scratch copy of the workspace and compile it.
+   * Returns the errors the artifacts introduce; errors the workspace already had are ignored.
+   */
+  async validateJob(jobId: number): Promise<ArtifactDiagnostic[]> {
+    const root = process.cwd();
+    const artifacts = (await storage.getJobArtifacts(jobId)).filter(a => a.fileType !== "migration");
+    const workspace = await createScratchWorkspace("vipudev-typecheck-", artifacts);
+
+    try {
+      const mergeErrors: ArtifactDiagnostic[] = workspace.mergeErrors.map(({ filePath, message }) => ({
+        file: filePath,
+        line: 0,
+        column: 0,
+        code: 0,
+        message,
+      }));
+
+      const before = await this.compile(root);
+      const after = await this.compile(workspace.root);
+      const introduced = [...mergeErrors, ...this.subtract(after, before)];
+
+      for (const artifact of artifacts) {
+        await storage.updateArtifact(artifact.id, {
+          diagnostics: introduced.filter(d => d.file === artifact.filePath),
+        } as any);
+      }
+
+      return introduced;
+    } finally {
+      await workspace.remove();
+    }
+  }
+
+  /**
+   * Compile a workspace in a child process, so the event loop stays free to refresh
+   * the job's lock while the compiler runs
+   */
+  private compile(root: string): Promise<ArtifactDiagnostic[]> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        process.execPath,
+        ["--import", "tsx", WORKER_SCRIPT, root],
+        { cwd: process.cwd(), timeout: COMPILE_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            const reason = (error as any).killed
+              ? `did not finish within ${COMPILE_TIMEOUT_MS / 1000}s`
+              : stderr.trim() || error.message;
+            reject(new Error(`Typecheck failed: ${reason}`));
+            return;
+          }
+          resolve(JSON.parse(stdout));
+        }
+      );
+    });
+  }
+
+  // Positions shift when code is merged in, so diagnostics are matched by file, code and message
+  private subtract(after: ArtifactDiagnostic[], before: ArtifactDiagnostic[]): ArtifactDiagnostic[] {
+    const remaining = new Map<string, number>();
+    for (const d of before) {
+      const key = `${d.file}:${d.code}:${d.message}`;
+      remaining.set(key, (remaining.get(key) ?? 0) + 1);
+    }
+
+    return after.filter(d => {
+      const key = `${d.file}:${d.code}:${d.message}`;
+      const count = remaining.get(key) ?? 0;
+      if (count === 0) return true;
+      remaining.set(key, count - 1);
+      return false;
+    });
+  }
+}
+
+export const typecheckService = new TypecheckService();
@@ -0,0 +1,84 @@
+// Compiles a workspace and prints its errors as JSON. typecheckService runs this in a
+// child process so the compile doesn't block the generation worker's heartbeat.
+// Usage: node --import tsx server/generation/typecheckWorker.ts <workspace root>
+import path from "path";
+import ts from "typescript";
+import type { ArtifactDiagnostic } from "./typecheckService";
+
+// Used when the workspace has no tsconfig.json: the options the client and server are
+// written against, with the same aliases vite.config.ts and tsup.config.ts resolve
+const DEFAULT_CONFIG = {
+  compilerOptions: {
+    target: "ES2022",
+    module: "ESNext",
+    moduleResolution: "bundler",
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    esModuleInterop: true,
+    allowImportingTsExtensions: true,
+    jsx: "preserve",
+    lib: ["esnext", "dom", "dom.iterable"],
+    types: ["node", "vite/client"],
+    baseUrl: ".",
+    paths: {
+      "@/*": ["./client/src/*"],
+      "@shared/*": ["./shared/*"],
+    },
+  },
+  include: ["client/src/**/*", "shared/**/*", "server/**/*"],
+};
+
+/**
+ * Run the compiler the way `npm run check` does, with the workspace's tsconfig.json
+ * or the default options when it has none
+ */
+function compile(root: string): ArtifactDiagnostic[] {
+  const config = loadConfig(root);
+  const program = ts.createProgram(config.fileNames, config.options);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => {
+      const position = d.file && d.start !== undefined
+        ? d.file.getLineAndCharacterOfPosition(d.start)
+        : undefined;
+      return {
+        file: d.file ? relativePath(root, d.file.fileName) : "",
+        line: position ? position.line + 1 : 0,
+        column: position ? position.character + 1 : 0,
+        code: d.code,
+        message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+      };
+    });
+}
+
+function loadConfig(root: string): ts.ParsedCommandLine {
+  const configPath = path.join(root, "tsconfig.json");
+  if (!ts.sys.fileExists(configPath)) {
+    return ts.parseJsonConfigFileContent(DEFAULT_CONFIG, ts.sys, root);
+  }
+
+  const config = ts.getParsedCommandLineOfConfigFile(
+    configPath,
+    { noEmit: true },
+    {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: diagnostic => {
+        throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+      },
+    }
+  );
+  if (!config) {
+    throw new Error(`Cannot read ${configPath}`);
+  }
+  return config;
+}
+
+// Files resolved through the node_modules link live outside the scratch copy
+function relativePath(root: string, fileName: string): string {
+  const relative = path.relative(root, fileName);
+  return relative.startsWith("..") ? path.relative(process.cwd(), fileName) : relative;
+}
+
+process.stdout.write(JSON.stringify(compile(path.resolve(process.argv[2] ?? "."))));
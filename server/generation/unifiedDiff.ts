@@ -0,0 +1,118 @@
+type DiffLine = { type: " " | "-" | "+"; text: string };
+
+const CONTEXT_LINES = 3;
+
+/**
+ * Line-based unified diff, in the format of `git diff`, between the current
+ * content of a file (null when it does not exist yet) and its new content
+ */
+export function createUnifiedDiff(filePath: string, before: string | null, after: string): string {
+  const lines = diffLines(splitLines(before ?? ""), splitLines(after));
+  const header = `--- ${before === null ? "/dev/null" : `a/${filePath}`}\n+++ b/${filePath}\n`;
+  const hunks = buildHunks(lines);
+  return hunks.length > 0 ? header + hunks.join("\n") + "\n" : "";
+}
+
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  // Generated artifacts mostly insert code, so trimming the common ends keeps the table small
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  // Longest common subsequence table, filled from the end
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: " ", text: a[i++] });
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      middle.push({ type: "-", text: a[i++] });
+    } else {
+      middle.push({ type: "+", text: b[j++] });
+    }
+  }
+  while (i < a.length) middle.push({ type: "-", text: a[i++] });
+  while (j < b.length) middle.push({ type: "+", text: b[j++] });
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: " " as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: " " as const, text })),
+  ];
+}
+
+function buildHunks(lines: DiffLine[]): string[] {
+  const hunks: string[] = [];
+  let index = 0;
+  // Line numbers (1-based) of lines[index] in the old and new file
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, i) => i >= index && line.type !== " ");
+    if (firstChange === -1) break;
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    for (let i = index; i < start; i++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Extend the hunk until a run of unchanged lines is long enough to split on
+    let end = firstChange;
+    let unchanged = 0;
+    for (let i = firstChange; i < lines.length; i++) {
+      if (lines[i].type === " ") {
+        unchanged++;
+        if (unchanged > CONTEXT_LINES * 2) break;
+      } else {
+        unchanged = 0;
+        end = i;
+      }
+    }
+    const stop = Math.min(lines.length, end + 1 + CONTEXT_LINES);
+
+    const body = lines.slice(start, stop);
+    const oldCount = body.filter(line => line.type !== "+").length;
+    const newCount = body.filter(line => line.type !== "-").length;
+    const header = `@@ -${oldCount > 0 ? oldLine : oldLine - 1},${oldCount} +${newCount > 0 ? newLine : newLine - 1},${newCount} @@`;
+    hunks.push([header, ...body.map(line => line.type + line.text)].join("\n"));
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = stop;
+  }
+
+  return hunks;
+}
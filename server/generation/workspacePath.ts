@@ -0,0 +1,10 @@
+import path from "path";
+
+/**
+ * Absolute path of an artifact's file inside root, or null when the path
+ * would lead outside it (absolute paths and .. segments included)
+ */
+export function resolveWorkspacePath(root: string, filePath: string): string | null {
+  const absolutePath = path.resolve(root, filePath);
+  return absolutePath.startsWith(root + path.sep) ? absolutePath : null;
+}
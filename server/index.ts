@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { generationWorker } from "./generation/generationWorker";
 
 const app = express();
 
@@ -10,6 +11,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // Module bundles are imported as JSON bodies and are larger than the 100kb default
+  limit: "5mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -82,6 +85,9 @@ const initPromise = (async () => {
     }, () => {
       log(`serving on port ${port}`);
     });
+
+    // Module generation runs in the background; on Vercel the cron route drives the queue
+    generationWorker.start();
   }
   
   return app;
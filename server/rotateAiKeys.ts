@@ -0,0 +1,50 @@
+/**
+ * Re-encrypt every school's AI API key with the current master key
+ *
+ * Usage:
+ * 1. Generate a new master key: openssl rand -base64 32
+ * 2. Add it to AI_KEY_MASTER_KEYS with the next version, keeping the old ones:
+ *    AI_KEY_MASTER_KEYS="2:<new key>,1:<old key>"
+ * 3. Run: tsx server/rotateAiKeys.ts
+ * 4. Once it reports no failures, remove the old key from AI_KEY_MASTER_KEYS
+ *
+ * Keys stored in plain text before encryption was added are encrypted as well.
+ * Only school ids are printed, never the keys.
+ */
+
+import { storage } from "./storage";
+import { currentKeyVersion, encryptApiKey, reencryptApiKey } from "./auth/apiKeyEncryption";
+
+async function rotateAiKeys() {
+  try {
+    const keyVersion = currentKeyVersion();
+    console.log(`🔐 Re-encrypting school AI keys with master key version ${keyVersion}...`);
+
+    const schools = (await storage.getSchools()).filter(school => school.aiApiKey);
+    let rotated = 0;
+    let failed = 0;
+
+    for (const school of schools) {
+      if (school.aiApiKeyVersion === keyVersion) continue;
+
+      try {
+        const key = school.aiApiKeyVersion === null
+          ? encryptApiKey(school.aiApiKey!)
+          : reencryptApiKey({ ciphertext: school.aiApiKey!, keyVersion: school.aiApiKeyVersion });
+        await storage.updateSchoolAiKey(school.id, key);
+        rotated++;
+      } catch (error: any) {
+        console.error(`❌ School ${school.id}: ${error.message}`);
+        failed++;
+      }
+    }
+
+    console.log(`\n✅ ${rotated} re-encrypted, ${schools.length - rotated - failed} already current, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error("❌ Rotation failed:", error.message);
+    process.exit(1);
+  }
+}
+
+rotateAiKeys();
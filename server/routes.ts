@@ -3,11 +3,33 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupPasswordAuth, isAuthenticated, isSuperAdmin, requireSchoolAdmin as requireSchoolAdminAuth } from "./auth/passwordAuth";
 import { attachTenantContext, requireSuperAdmin, requireSchoolAdmin } from "./tenantMiddleware";
-import { insertConversationSchema, insertMessageSchema, insertModuleSchema, insertSchoolSchema } from "@shared/schema";
+import { artifactReviewStatuses, insertConversationSchema, insertMessageSchema, insertModuleSchema, insertSchoolSchema, moduleTableActions, type School } from "@shared/schema";
+import { z } from "zod";
 import { aiService } from "./aiService";
+import { aiClientResolver } from "./aiClientResolver";
 import { codeGenerator } from "./codeGenerator";
-import { promises as fs } from "fs";
-import path from "path";
+import { deploymentService, DeploymentError } from "./generation/deploymentService";
+import { buildModuleBundle, bundleFileName, ModuleBundleError, parseModuleBundle } from "./generation/moduleBundle";
+import { BlueprintValidationError } from "./generation/blueprint";
+import { generationWorker } from "./generation/generationWorker";
+import { createUnifiedDiff } from "./generation/unifiedDiff";
+
+// Job statuses the events stream keeps polling for
+const ACTIVE_JOB_STATUSES = ["pending", "generating"];
+// Job statuses whose blueprint can be hand-edited into a new revision
+const EDITABLE_JOB_STATUSES = ["review", "validation_failed", "failed"];
+// Job statuses whose artifacts passed validation and can be exported as a bundle
+const EXPORTABLE_JOB_STATUSES = ["review", "approved", "deployed", "rolled_back", "uninstalled"];
+const JOB_EVENTS_POLL_MS = 1000;
+
+// Replies being streamed, by conversation, so they can be cancelled
+const activeChatStreams = new Map<number, AbortController>();
+
+// The encrypted AI key never leaves the server; ai-config reports whether one is set
+function withoutAiKey(school: School) {
+  const { aiApiKey: _, aiApiKeyVersion: __, ...safeSchool } = school;
+  return { ...safeSchool, hasAiKey: !!school.aiApiKey };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Password-based auth middleware (includes cookieParser + auth routes)
@@ -100,7 +122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/schools', isAuthenticated, requireSuperAdmin, async (req: any, res) => {
     try {
       const schools = await storage.getSchools();
-      res.json(schools);
+      res.json(schools.map(withoutAiKey));
     } catch (error) {
       console.error("Error fetching schools:", error);
       res.status(500).json({ message: "Failed to fetch schools" });
@@ -111,7 +133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const validatedData = insertSchoolSchema.parse(req.body);
       const school = await storage.createSchool(validatedData);
-      res.json(school);
+      res.json(withoutAiKey(school));
     } catch (error: any) {
       console.error("Error creating school:", error);
       res.status(400).json({ message: error.message || "Failed to create school" });
@@ -121,8 +143,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/schools/:schoolId', isAuthenticated, requireSuperAdmin, async (req: any, res) => {
     try {
       const schoolId = parseInt(req.params.schoolId);
-      const school = await storage.updateSchool(schoolId, req.body);
-      res.json(school);
+      const updates = req.body;
+
+      // AI keys are only stored encrypted, through the ai-config route
+      delete updates.aiApiKey;
+      delete updates.aiApiKeyVersion;
+
+      const school = await storage.updateSchool(schoolId, updates);
+      res.json(withoutAiKey(school));
     } catch (error: any) {
       console.error("Error updating school:", error);
       res.status(400).json({ message: error.message || "Failed to update school" });
@@ -164,6 +192,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const school = await storage.updateSchoolAiConfig(schoolId, provider, apiKey);
+      aiClientResolver.invalidate(schoolId);
       res.json({ success: true, provider: school.aiProvider, hasKey: !!school.aiApiKey });
     } catch (error: any) {
       console.error("Error updating AI config:", error);
@@ -222,6 +251,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Message content is required" });
       }
 
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
       // Save user message
       const validatedUserMessage = insertMessageSchema.parse({
         conversationId,
@@ -242,7 +276,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generate AI response
       let aiResponse: string;
       try {
-        aiResponse = await aiService.generateResponse(userMessage, conversationHistory);
+        aiResponse = await aiService.generateResponse(userMessage, conversationHistory, conversation.schoolId);
       } catch (error: any) {
         aiResponse = `AI service error: ${error.message}. Please ensure an API key is configured.`;
       }
@@ -265,8 +299,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streams the reply as `token` events, then sends the saved message as a `done` event.
+  // A cancelled reply is saved with what was generated up to that point.
+  app.post('/api/conversations/:conversationId/messages/stream', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    const conversationId = parseInt(req.params.conversationId);
+    const userMessage = req.body.content;
+    let conversationHistory: Array<{ role: string; content: string }>;
+    let schoolId: number | null;
+
+    if (!userMessage || typeof userMessage !== 'string') {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+
+    // Claimed before anything is awaited, so a second send can't slip past the check
+    if (activeChatStreams.has(conversationId)) {
+      return res.status(409).json({ message: "A reply is already being generated for this conversation" });
+    }
+    const controller = new AbortController();
+    activeChatStreams.set(conversationId, controller);
+
+    try {
+      const conversation = await storage.getConversation(conversationId);
+      if (!conversation) {
+        activeChatStreams.delete(conversationId);
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      schoolId = conversation.schoolId;
+
+      // Save user message
+      await storage.createMessage(insertMessageSchema.parse({
+        conversationId,
+        role: "user",
+        content: userMessage,
+      }));
+
+      // Get conversation history for context
+      const history = await storage.getMessages(conversationId);
+      conversationHistory = history
+        .slice(-10) // Last 10 messages for context
+        .map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        }));
+    } catch (error: any) {
+      activeChatStreams.delete(conversationId);
+      console.error("Error processing message:", error);
+      return res.status(500).json({ message: error.message || "Failed to process message" });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    let disconnected = false;
+    res.on('close', () => {
+      if (res.writableEnded) return;
+      disconnected = true;
+      controller.abort();
+    });
+
+    let aiResponse = "";
+    try {
+      for await (const text of aiService.streamResponse(userMessage, conversationHistory, schoolId, controller.signal)) {
+        aiResponse += text;
+        res.write(`event: token\ndata: ${JSON.stringify({ text })}\n\n`);
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        aiResponse = `AI service error: ${error.message}. Please ensure an API key is configured.`;
+      }
+    } finally {
+      activeChatStreams.delete(conversationId);
+    }
+
+    try {
+      if (aiResponse) {
+        const savedMessage = await storage.createMessage(insertMessageSchema.parse({
+          conversationId,
+          role: "assistant",
+          content: aiResponse,
+        }));
+        await storage.updateConversation(conversationId);
+        if (!disconnected) {
+          res.write(`event: done\ndata: ${JSON.stringify(savedMessage)}\n\n`);
+        }
+      } else if (!disconnected) {
+        res.write(`event: done\ndata: null\n\n`);
+      }
+    } catch (error: any) {
+      console.error("Error saving streamed message:", error);
+      if (!disconnected) {
+        res.write(`event: error\ndata: ${JSON.stringify({ message: "Failed to save the reply" })}\n\n`);
+      }
+    }
+    res.end();
+  });
+
+  app.post('/api/conversations/:conversationId/messages/stream/cancel', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    const conversationId = parseInt(req.params.conversationId);
+    const controller = activeChatStreams.get(conversationId);
+    if (!controller) {
+      return res.status(404).json({ message: "No reply is being generated for this conversation" });
+    }
+    controller.abort();
+    res.json({ success: true });
+  });
+
   // Module routes
-  app.get('/api/modules', isAuthenticated, async (req: any, res) => {
+  // The tenant context is attached again once isAuthenticated has identified the user,
+  // so each school only sees its own modules
+  app.get('/api/modules', isAuthenticated, attachTenantContext, async (req: any, res) => {
     try {
       const schoolId = req.schoolId;
       const modules = await storage.getModules(schoolId);
@@ -280,7 +425,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/modules', isAuthenticated, isSuperAdmin, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const schoolId = req.schoolId;
+      // Super admins have no school context and enable modules for a school by id
+      const schoolId = req.schoolId ?? req.body.schoolId;
       const validatedData = insertModuleSchema.parse({
         ...req.body,
         createdBy: userId,
@@ -308,6 +454,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/modules/:moduleId', isAuthenticated, isSuperAdmin, async (req: any, res) => {
     try {
       const moduleId = parseInt(req.params.moduleId);
+      const jobs = await storage.getModuleJobs(moduleId);
+      if (jobs.some(job => job.status === "deployed")) {
+        return res.status(409).json({ message: "Module has deployed code. Uninstall the module to remove its code and tables." });
+      }
       await storage.deleteModule(moduleId);
       res.json({ success: true });
     } catch (error: any) {
@@ -316,6 +466,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Removes the module's applied code and drops or archives its tables; the caller confirms by typing the module name
+  app.post('/api/modules/:moduleId/uninstall', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const moduleId = parseInt(req.params.moduleId);
+      const parsed = z.object({
+        tables: z.enum(moduleTableActions),
+        confirm: z.string(),
+      }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Choose whether to drop or archive the module's tables" });
+      }
+
+      const module = await storage.getModule(moduleId);
+      if (!module) {
+        return res.status(404).json({ message: "Module not found" });
+      }
+      if (parsed.data.confirm !== module.name) {
+        return res.status(400).json({ message: "Type the module name to confirm the uninstall" });
+      }
+
+      const { deployment, filesModified } = await deploymentService.uninstallModule(
+        moduleId,
+        req.user.claims.sub,
+        parsed.data.tables
+      );
+      res.json({
+        message: "Module uninstalled. Restart your application to see changes.",
+        deployment,
+        filesModified,
+      });
+    } catch (error: any) {
+      console.error("Error uninstalling module:", error);
+      const status = error instanceof DeploymentError ? error.status : 500;
+      res.status(status).json({ message: error.message || "Failed to uninstall module" });
+    }
+  });
+
   // Code Generation Routes (Super Admin only)
   app.post('/api/generation/jobs', isAuthenticated, isSuperAdmin, async (req: any, res) => {
     try {
@@ -327,15 +514,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Request description is required" });
       }
 
-      // Start generation process (async)
-      const jobId = await codeGenerator.generateModule(userId, requestDescription, conversationId, schoolId);
-      res.json({ jobId, message: "Generation started" });
+      // Queue the job; the generation worker runs it and reports progress as job events
+      const jobId = await codeGenerator.enqueueModule(userId, requestDescription, conversationId, schoolId);
+      generationWorker.notify();
+      res.status(202).json({ jobId, message: "Generation queued" });
     } catch (error: any) {
       console.error("Error starting generation:", error);
       res.status(500).json({ message: error.message || "Failed to start generation" });
     }
   });
 
+  // Vercel cron entry point: serverless functions cannot keep the worker polling
+  app.get('/api/generation/worker', async (req, res) => {
+    if (!process.env.CRON_SECRET || req.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    try {
+      const processed = await generationWorker.runOnce();
+      res.json({ processed });
+    } catch (error: any) {
+      console.error("Error running generation worker:", error);
+      res.status(500).json({ message: error.message || "Failed to run generation worker" });
+    }
+  });
+
+  // Server-Sent Events stream of a job's progress; resumes from Last-Event-ID on reconnect
+  app.get('/api/generation/jobs/:jobId/events', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    const jobId = parseInt(req.params.jobId);
+    try {
+      const job = await storage.getGenerationJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      return res.status(500).json({ message: "Failed to fetch job" });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.flushHeaders();
+
+    let lastEventId = parseInt(req.get('last-event-id') ?? '0') || 0;
+    let closed = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const close = () => {
+      closed = true;
+      clearTimeout(timer);
+      res.end();
+    };
+    req.on('close', close);
+
+    const poll = async () => {
+      try {
+        for (const event of await storage.getJobEvents(jobId, lastEventId)) {
+          res.write(`id: ${event.id}\nevent: progress\ndata: ${JSON.stringify(event)}\n\n`);
+          lastEventId = event.id;
+        }
+
+        const current = await storage.getGenerationJob(jobId);
+        if (!current || !ACTIVE_JOB_STATUSES.includes(current.status)) {
+          res.write(`event: done\ndata: ${JSON.stringify({ status: current?.status ?? null })}\n\n`);
+          return close();
+        }
+      } catch (error) {
+        console.error("Error streaming job events:", error);
+        return close();
+      }
+
+      if (!closed) timer = setTimeout(poll, JOB_EVENTS_POLL_MS);
+    };
+    await poll();
+  });
+
   app.get('/api/generation/jobs', isAuthenticated, isSuperAdmin, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -359,14 +615,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const artifacts = await storage.getJobArtifacts(jobId);
       const deployments = await storage.getDeploymentHistory(jobId);
-
-      res.json({ ...job, artifacts, deployments });
+      const revisions = await storage.getJobRevisions(job.originalJobId ?? job.id);
+
+      // What the refinement changed, relative to the revision it was made from
+      const parent = revisions.find(r => r.id === job.parentJobId);
+      const blueprintDiff = parent?.moduleBlueprint && job.moduleBlueprint
+        ? createUnifiedDiff(
+            "blueprint.json",
+            JSON.stringify(parent.moduleBlueprint, null, 2),
+            JSON.stringify(job.moduleBlueprint, null, 2)
+          )
+        : null;
+
+      res.json({
+        ...job,
+        artifacts,
+        deployments,
+        revisions: revisions.map(({ id, revision, status, refinement, createdAt }) => ({ id, revision, status, refinement, createdAt })),
+        blueprintDiff,
+      });
     } catch (error: any) {
       console.error("Error fetching job details:", error);
       res.status(500).json({ message: "Failed to fetch job details" });
     }
   });
 
+  app.post('/api/generation/jobs/:jobId/refine', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const userId = req.user.claims.sub;
+      const { instruction } = req.body;
+
+      if (!instruction?.trim()) {
+        return res.status(400).json({ message: "Refinement instruction is required" });
+      }
+
+      const job = await storage.getGenerationJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.status !== 'review' || !job.moduleBlueprint) {
+        return res.status(400).json({ message: "Only jobs in review can be refined" });
+      }
+
+      const revision = await codeGenerator.enqueueRefinement(userId, job, instruction.trim());
+      generationWorker.notify();
+      res.status(202).json({ jobId: revision.id, revision: revision.revision, message: "Refinement queued" });
+    } catch (error: any) {
+      console.error("Error refining job:", error);
+      res.status(500).json({ message: error.message || "Failed to refine job" });
+    }
+  });
+
+  app.put('/api/generation/jobs/:jobId/blueprint', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const userId = req.user.claims.sub;
+
+      const job = await storage.getGenerationJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!EDITABLE_JOB_STATUSES.includes(job.status) || !job.moduleBlueprint) {
+        return res.status(400).json({ message: "Only generated jobs that have not been approved can be edited" });
+      }
+
+      const revision = await codeGenerator.enqueueEditedBlueprint(userId, job, req.body.blueprint);
+      generationWorker.notify();
+      res.status(202).json({ jobId: revision.id, revision: revision.revision, message: "Regeneration queued" });
+    } catch (error: any) {
+      console.error("Error saving blueprint:", error);
+      if (error instanceof BlueprintValidationError) {
+        return res.status(422).json({ message: "Blueprint failed validation", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message || "Failed to save blueprint" });
+    }
+  });
+
+  // Download a generated module as a bundle another instance can import
+  app.get('/api/generation/jobs/:jobId/bundle', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      const job = await storage.getGenerationJob(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (!EXPORTABLE_JOB_STATUSES.includes(job.status)) {
+        return res.status(400).json({ message: "Only jobs that passed validation can be exported" });
+      }
+
+      const bundle = buildModuleBundle(job, await storage.getJobArtifacts(jobId));
+      res.attachment(bundleFileName(bundle));
+      res.type('application/json').send(JSON.stringify(bundle, null, 2));
+    } catch (error: any) {
+      console.error("Error exporting module bundle:", error);
+      const status = error instanceof ModuleBundleError ? error.status : 500;
+      res.status(status).json({ message: error.message || "Failed to export module bundle" });
+    }
+  });
+
+  // Queue a job for a bundle exported by another instance; it is then reviewed, approved and deployed as usual
+  app.post('/api/generation/bundles', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bundle = parseModuleBundle(req.body);
+
+      const job = await codeGenerator.enqueueImportedBundle(userId, bundle, req.schoolId);
+      generationWorker.notify();
+      res.status(202).json({ jobId: job.id, message: "Bundle import queued" });
+    } catch (error: any) {
+      console.error("Error importing module bundle:", error);
+      if (error instanceof BlueprintValidationError) {
+        return res.status(422).json({ message: "Bundle blueprint failed validation", errors: error.errors });
+      }
+      const status = error instanceof ModuleBundleError ? error.status : 500;
+      res.status(status).json({ message: error.message || "Failed to import module bundle" });
+    }
+  });
+
+  app.patch('/api/generation/artifacts/:artifactId/review', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const artifactId = parseInt(req.params.artifactId);
+      const { status } = z.object({ status: z.enum(artifactReviewStatuses) }).parse(req.body);
+
+      const artifact = await storage.getArtifact(artifactId);
+      if (!artifact) {
+        return res.status(404).json({ message: "Artifact not found" });
+      }
+
+      const job = await storage.getGenerationJob(artifact.jobId);
+      if (job?.status !== 'review') {
+        return res.status(400).json({ message: "Files can only be reviewed while the job is in review" });
+      }
+
+      const updated = await storage.updateArtifact(artifactId, { reviewStatus: status });
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error reviewing artifact:", error);
+      res.status(400).json({ message: error.message || "Failed to review artifact" });
+    }
+  });
+
   app.post('/api/generation/jobs/:jobId/approve', isAuthenticated, isSuperAdmin, async (req: any, res) => {
     try {
       const jobId = parseInt(req.params.jobId);
@@ -381,6 +770,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Job is not ready for approval" });
       }
 
+      const artifacts = await storage.getJobArtifacts(jobId);
+      const unaccepted = artifacts.filter(a => a.reviewStatus !== 'accepted');
+      if (unaccepted.length > 0) {
+        return res.status(400).json({
+          message: `Accept every file before approving (${unaccepted.length} not accepted)`,
+        });
+      }
+
       await storage.updateGenerationJob(jobId, {
         status: "approved",
         approvedBy: userId,
@@ -413,41 +810,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       try {
-        // Get artifacts
-        const artifacts = await storage.getJobArtifacts(jobId);
-        const filesModified: string[] = [];
-
-        // Apply each artifact (write to filesystem)
-        for (const artifact of artifacts) {
-          const filePath = path.join(process.cwd(), artifact.filePath);
-          
-          // Read existing file content for backup
-          let existingContent = '';
-          try {
-            existingContent = await fs.readFile(filePath, 'utf-8');
-          } catch (error) {
-            // File doesn't exist yet
-          }
-
-          // Append generated code to file
-          const newContent = existingContent + '\n' + artifact.generatedCode;
-          await fs.writeFile(filePath, newContent, 'utf-8');
-          
-          filesModified.push(artifact.filePath);
-
-          // Mark artifact as applied
-          await storage.updateArtifact(artifact.id, {
-            isApplied: true,
-          } as any);
-        }
-
-        // Create deployment record
-        await storage.createDeployment({
-          jobId,
-          deployedBy: userId,
-          filesModified,
-          status: "success",
-        });
+        const { filesModified } = await deploymentService.deployJob(jobId, userId);
 
         // Update job status
         await storage.updateGenerationJob(jobId, {
@@ -469,7 +832,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     } catch (error: any) {
       console.error("Error deploying job:", error);
-      res.status(500).json({ message: error.message || "Failed to deploy job" });
+      const status = error instanceof DeploymentError ? error.status : 500;
+      res.status(status).json({ message: error.message || "Failed to deploy job" });
+    }
+  });
+
+  app.post('/api/deployments/:id/rollback', isAuthenticated, isSuperAdmin, async (req: any, res) => {
+    try {
+      const deploymentId = parseInt(req.params.id);
+      const deployment = await deploymentService.rollbackDeployment(deploymentId);
+      res.json({
+        message: "Rollback successful! Restart your application to see changes.",
+        deployment,
+      });
+    } catch (error: any) {
+      console.error("Error rolling back deployment:", error);
+      const status = error instanceof DeploymentError ? error.status : 500;
+      res.status(status).json({ message: error.message || "Failed to roll back deployment" });
     }
   });
 
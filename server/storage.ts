@@ -6,6 +6,7 @@ import {
   modules,
   moduleGenerationJobs,
   generationArtifacts,
+  generationJobEvents,
   deploymentHistory,
   type User,
   type UpsertUser,
@@ -21,11 +22,14 @@ import {
   type InsertModuleGenerationJob,
   type GenerationArtifact,
   type InsertGenerationArtifact,
+  type GenerationJobEvent,
+  type InsertGenerationJobEvent,
   type DeploymentHistory,
   type InsertDeploymentHistory,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNull, sql } from "drizzle-orm";
+import { encryptApiKey, type EncryptedApiKey } from "./auth/apiKeyEncryption";
+import { eq, desc, and, or, gt, lt, lte, isNull, sql } from "drizzle-orm";
 
 export interface IStorage {
   // User operations
@@ -49,9 +53,12 @@ export interface IStorage {
   updateSchool(schoolId: number, data: Partial<InsertSchool>): Promise<School>;
   getSchoolAiConfig(schoolId: number): Promise<{ provider: string | null; hasKey: boolean }>;
   updateSchoolAiConfig(schoolId: number, provider: string | null, apiKey: string | null): Promise<School>;
+  // Replaces the stored key with a re-encrypted copy, e.g. after rotating the master key
+  updateSchoolAiKey(schoolId: number, key: EncryptedApiKey): Promise<void>;
   
   // Conversation operations (schoolId optional - undefined = super admin)
   getConversations(userId: string, schoolId?: number): Promise<Conversation[]>;
+  getConversation(conversationId: number): Promise<Conversation | undefined>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(conversationId: number): Promise<void>;
   
@@ -61,6 +68,7 @@ export interface IStorage {
   
   // Module operations (schoolId optional - undefined = super admin)
   getModules(schoolId?: number): Promise<Module[]>;
+  getModule(moduleId: number): Promise<Module | undefined>;
   createModule(module: InsertModule): Promise<Module>;
   updateModule(moduleId: number, data: Partial<InsertModule>): Promise<Module>;
   deleteModule(moduleId: number): Promise<void>;
@@ -70,14 +78,24 @@ export interface IStorage {
   getGenerationJob(jobId: number): Promise<ModuleGenerationJob | undefined>;
   createGenerationJob(job: InsertModuleGenerationJob): Promise<ModuleGenerationJob>;
   updateGenerationJob(jobId: number, data: Partial<InsertModuleGenerationJob>): Promise<ModuleGenerationJob>;
+  getJobRevisions(originalJobId: number): Promise<ModuleGenerationJob[]>;
+  getModuleJobs(moduleId: number): Promise<ModuleGenerationJob[]>;
+  claimGenerationJob(workerId: string, staleBefore: Date): Promise<ModuleGenerationJob | undefined>;
+  
+  // Generation job event operations
+  getJobEvents(jobId: number, afterEventId?: number): Promise<GenerationJobEvent[]>;
+  createJobEvent(event: InsertGenerationJobEvent): Promise<GenerationJobEvent>;
   
   // Artifact operations
   getJobArtifacts(jobId: number): Promise<GenerationArtifact[]>;
+  getArtifact(artifactId: number): Promise<GenerationArtifact | undefined>;
   createArtifact(artifact: InsertGenerationArtifact): Promise<GenerationArtifact>;
   updateArtifact(artifactId: number, data: Partial<InsertGenerationArtifact>): Promise<GenerationArtifact>;
+  deleteJobArtifacts(jobId: number): Promise<void>;
   
   // Deployment operations
   getDeploymentHistory(jobId?: number): Promise<DeploymentHistory[]>;
+  getDeployment(deploymentId: number): Promise<DeploymentHistory | undefined>;
   createDeployment(deployment: InsertDeploymentHistory): Promise<DeploymentHistory>;
   updateDeployment(deploymentId: number, data: Partial<InsertDeploymentHistory>): Promise<DeploymentHistory>;
 }
@@ -228,11 +246,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateSchoolAiConfig(schoolId: number, provider: string | null, apiKey: string | null): Promise<School> {
+    const encrypted = apiKey ? encryptApiKey(apiKey) : null;
     const [school] = await db
       .update(schools)
       .set({ 
         aiProvider: provider,
-        aiApiKey: apiKey,
+        aiApiKey: encrypted?.ciphertext ?? null,
+        aiApiKeyVersion: encrypted?.keyVersion ?? null,
         updatedAt: new Date() 
       })
       .where(eq(schools.id, schoolId))
@@ -240,6 +260,13 @@ export class DatabaseStorage implements IStorage {
     return school;
   }
 
+  async updateSchoolAiKey(schoolId: number, key: EncryptedApiKey): Promise<void> {
+    await db
+      .update(schools)
+      .set({ aiApiKey: key.ciphertext, aiApiKeyVersion: key.keyVersion })
+      .where(eq(schools.id, schoolId));
+  }
+
   // Conversation operations
   async getConversations(userId: string, schoolId?: number): Promise<Conversation[]> {
     const conditions = [eq(conversations.userId, userId)];
@@ -255,6 +282,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(conversations.updatedAt));
   }
 
+  async getConversation(conversationId: number): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId));
+    return conversation;
+  }
+
   async createConversation(conversationData: InsertConversation): Promise<Conversation> {
     const [conversation] = await db
       .insert(conversations)
@@ -303,6 +338,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(modules.createdAt));
   }
 
+  async getModule(moduleId: number): Promise<Module | undefined> {
+    const [module] = await db.select().from(modules).where(eq(modules.id, moduleId));
+    return module;
+  }
+
   async createModule(moduleData: InsertModule): Promise<Module> {
     const [module] = await db
       .insert(modules)
@@ -364,13 +404,88 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
+  async getJobRevisions(originalJobId: number): Promise<ModuleGenerationJob[]> {
+    return await db
+      .select()
+      .from(moduleGenerationJobs)
+      .where(or(
+        eq(moduleGenerationJobs.id, originalJobId),
+        eq(moduleGenerationJobs.originalJobId, originalJobId),
+      ))
+      .orderBy(moduleGenerationJobs.revision);
+  }
+
+  // Newest first, so later revisions come before the ones they replaced
+  async getModuleJobs(moduleId: number): Promise<ModuleGenerationJob[]> {
+    return await db
+      .select()
+      .from(moduleGenerationJobs)
+      .where(eq(moduleGenerationJobs.moduleId, moduleId))
+      .orderBy(desc(moduleGenerationJobs.createdAt));
+  }
+
+  /**
+   * Lock the oldest job that is due to run, or whose worker stopped refreshing its lock.
+   * SKIP LOCKED lets several workers poll the table without claiming the same job.
+   */
+  async claimGenerationJob(workerId: string, staleBefore: Date): Promise<ModuleGenerationJob | undefined> {
+    const next = db
+      .select({ id: moduleGenerationJobs.id })
+      .from(moduleGenerationJobs)
+      .where(or(
+        and(eq(moduleGenerationJobs.status, "pending"), lte(moduleGenerationJobs.runAfter, new Date())),
+        and(eq(moduleGenerationJobs.status, "generating"), lt(moduleGenerationJobs.lockedAt, staleBefore)),
+      ))
+      .orderBy(moduleGenerationJobs.createdAt)
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await db
+      .update(moduleGenerationJobs)
+      .set({
+        status: "generating",
+        lockedBy: workerId,
+        lockedAt: new Date(),
+        attempts: sql`${moduleGenerationJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(moduleGenerationJobs.id, sql`(${next})`))
+      .returning();
+    return job;
+  }
+
+  // Generation job event operations
+  async getJobEvents(jobId: number, afterEventId = 0): Promise<GenerationJobEvent[]> {
+    return await db
+      .select()
+      .from(generationJobEvents)
+      .where(and(eq(generationJobEvents.jobId, jobId), gt(generationJobEvents.id, afterEventId)))
+      .orderBy(generationJobEvents.id);
+  }
+
+  async createJobEvent(eventData: InsertGenerationJobEvent): Promise<GenerationJobEvent> {
+    const [event] = await db
+      .insert(generationJobEvents)
+      .values(eventData)
+      .returning();
+    return event;
+  }
+
   // Artifact operations
   async getJobArtifacts(jobId: number): Promise<GenerationArtifact[]> {
     return await db
       .select()
       .from(generationArtifacts)
       .where(eq(generationArtifacts.jobId, jobId))
-      .orderBy(generationArtifacts.createdAt);
+      .orderBy(generationArtifacts.createdAt, generationArtifacts.id);
+  }
+
+  async getArtifact(artifactId: number): Promise<GenerationArtifact | undefined> {
+    const [artifact] = await db
+      .select()
+      .from(generationArtifacts)
+      .where(eq(generationArtifacts.id, artifactId));
+    return artifact;
   }
 
   async createArtifact(artifactData: InsertGenerationArtifact): Promise<GenerationArtifact> {
@@ -390,6 +505,10 @@ export class DatabaseStorage implements IStorage {
     return artifact;
   }
 
+  async deleteJobArtifacts(jobId: number): Promise<void> {
+    await db.delete(generationArtifacts).where(eq(generationArtifacts.jobId, jobId));
+  }
+
   // Deployment operations
   async getDeploymentHistory(jobId?: number): Promise<DeploymentHistory[]> {
     if (jobId) {
@@ -406,6 +525,14 @@ export class DatabaseStorage implements IStorage {
       .limit(50);
   }
 
+  async getDeployment(deploymentId: number): Promise<DeploymentHistory | undefined> {
+    const [deployment] = await db
+      .select()
+      .from(deploymentHistory)
+      .where(eq(deploymentHistory.id, deploymentId));
+    return deployment;
+  }
+
   async createDeployment(deploymentData: InsertDeploymentHistory): Promise<DeploymentHistory> {
     const [deployment] = await db
       .insert(deploymentHistory)
@@ -1,7 +1,6 @@
 import { RequestHandler } from "express";
-import { db } from "./db";
-import { users } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { storage } from "./storage";
+import type { UserRole } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -25,11 +24,7 @@ export const attachTenantContext: RequestHandler = async (req, res, next) => {
     const userId = user.claims.sub;
 
     // Fetch user from database to get role and schoolId
-    const [dbUser] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+    const dbUser = await storage.getUser(userId);
 
     if (!dbUser) {
       return next();
@@ -76,6 +71,16 @@ export const requireSuperAdmin: RequestHandler = (req, res, next) => {
   next();
 };
 
+// Used by generated module routes; needs attachTenantContext to have set the user's role
+export const requireRole = (...roles: UserRole[]): RequestHandler => (req, res, next) => {
+  if (!req.isSuperAdmin && !roles.includes(req.userRole as UserRole)) {
+    return res.status(403).json({
+      message: `Requires one of these roles: ${roles.join(", ")}`,
+    });
+  }
+  next();
+};
+
 export const requireSchoolAdmin: RequestHandler = async (req, res, next) => {
   try {
     const user = req.user as any;
@@ -84,11 +89,7 @@ export const requireSchoolAdmin: RequestHandler = async (req, res, next) => {
     }
 
     const userId = user.claims.sub;
-    const [dbUser] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+    const dbUser = await storage.getUser(userId);
 
     if (!dbUser) {
       return res.status(401).json({ message: "User not found" });
@@ -0,0 +1,192 @@
+// Contract tests for the hosted LLM providers. Each provider talks to a local server
+// that replays responses recorded from the real API (fixtures/ai/*.json), so the
+// tests check what goes over the wire and how replies and errors come back
+// without a key or network access.
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import path from "path";
+import { createServer, type IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import { AnthropicProvider } from "../ai/anthropicProvider";
+import { OpenAIProvider } from "../ai/openaiProvider";
+import { GeminiProvider } from "../ai/geminiProvider";
+import { NO_RESPONSE, type LLMProvider, type LLMRequest } from "../ai/llmProvider";
+import { DEFAULT_ANTHROPIC_MODEL, DEFAULT_GEMINI_MODEL, DEFAULT_OPENAI_MODEL } from "../ai/models";
+
+interface SseEvent {
+  event?: string;
+  data: unknown;
+}
+
+interface ProviderFixture {
+  // Request body the provider has to send, without the model
+  generate: { request: Record<string, unknown>; response: unknown; reply: string };
+  // A response without any text
+  empty: { response: unknown };
+  stream: { events: SseEvent[]; reply: string[] };
+  error: { status: number; response: unknown; message: string };
+  blocked?: { response: unknown; message: string };
+}
+
+type Recorded = { status: number; body: unknown } | { events: SseEvent[] };
+
+interface Received {
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+const API_KEY = "test-key";
+
+const request: LLMRequest = {
+  systemPrompt: "You are VipuDev.AI.",
+  messages: [
+    { role: "user", content: "What can you build?" },
+    { role: "assistant", content: "School modules." },
+    { role: "user", content: "Add an attendance module" },
+  ],
+  maxTokens: 256,
+};
+
+function loadFixture(name: string): ProviderFixture {
+  return JSON.parse(readFileSync(path.join(import.meta.dirname, "fixtures", "ai", `${name}.json`), "utf-8"));
+}
+
+// The next response the server sends, and the last request it got
+let recorded: Recorded = { status: 500, body: {} };
+let received: Received | undefined;
+
+const server = createServer((req, res) => {
+  let raw = "";
+  req.on("data", chunk => (raw += chunk));
+  req.on("end", () => {
+    received = { method: req.method!, url: req.url!, headers: req.headers, body: raw ? JSON.parse(raw) : undefined };
+
+    if ("events" in recorded) {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (const { event, data } of recorded.events) {
+        if (event) res.write(`event: ${event}\n`);
+        res.write(`data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`);
+      }
+      res.end();
+      return;
+    }
+
+    res.writeHead(recorded.status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(recorded.body));
+  });
+});
+
+let serverUrl = "";
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+async function collect(chunks: AsyncIterable<string>): Promise<string[]> {
+  const collected: string[] = [];
+  for await (const chunk of chunks) collected.push(chunk);
+  return collected;
+}
+
+interface ProviderContract {
+  name: string;
+  fixture: ProviderFixture;
+  create(baseUrl: string): LLMProvider;
+  generatePath: string;
+  streamPath: string;
+  auth: [header: string, value: string];
+  expectedBody(stream: boolean): unknown;
+}
+
+const anthropic = loadFixture("anthropic");
+const openai = loadFixture("openai");
+const gemini = loadFixture("gemini");
+
+const contracts: ProviderContract[] = [
+  {
+    name: "anthropic",
+    fixture: anthropic,
+    create: baseUrl => new AnthropicProvider(API_KEY, baseUrl),
+    generatePath: "/v1/messages",
+    streamPath: "/v1/messages",
+    auth: ["x-api-key", API_KEY],
+    expectedBody: stream => ({ model: DEFAULT_ANTHROPIC_MODEL, ...anthropic.generate.request, ...(stream && { stream: true }) }),
+  },
+  {
+    name: "openai",
+    fixture: openai,
+    create: baseUrl => new OpenAIProvider(API_KEY, `${baseUrl}/v1`),
+    generatePath: "/v1/chat/completions",
+    streamPath: "/v1/chat/completions",
+    auth: ["authorization", `Bearer ${API_KEY}`],
+    expectedBody: stream => ({ model: DEFAULT_OPENAI_MODEL, ...openai.generate.request, ...(stream && { stream: true }) }),
+  },
+  {
+    name: "gemini",
+    fixture: gemini,
+    create: baseUrl => new GeminiProvider(API_KEY, `${baseUrl}/v1beta`),
+    // Gemini takes the model in the path and streams from its own method
+    generatePath: `/v1beta/models/${DEFAULT_GEMINI_MODEL}:generateContent`,
+    streamPath: `/v1beta/models/${DEFAULT_GEMINI_MODEL}:streamGenerateContent?alt=sse`,
+    auth: ["x-goog-api-key", API_KEY],
+    expectedBody: () => gemini.generate.request,
+  },
+];
+
+for (const contract of contracts) {
+  const { name, fixture } = contract;
+
+  test(`${name}: sends the conversation and returns the reply`, async () => {
+    recorded = { status: 200, body: fixture.generate.response };
+
+    const reply = await contract.create(serverUrl).generate(request);
+
+    assert.equal(reply, fixture.generate.reply);
+    assert.equal(received?.method, "POST");
+    assert.equal(received?.url, contract.generatePath);
+    assert.equal(received?.headers[contract.auth[0]], contract.auth[1]);
+    assert.deepEqual(received?.body, contract.expectedBody(false));
+  });
+
+  test(`${name}: answers with a placeholder when the response has no text`, async () => {
+    recorded = { status: 200, body: fixture.empty.response };
+
+    assert.equal(await contract.create(serverUrl).generate(request), NO_RESPONSE);
+  });
+
+  test(`${name}: streams the reply's text as it arrives`, async () => {
+    recorded = { events: fixture.stream.events };
+
+    const chunks = await collect(contract.create(serverUrl).stream(request, new AbortController().signal));
+
+    assert.deepEqual(chunks, fixture.stream.reply);
+    assert.equal(received?.url, contract.streamPath);
+    assert.equal(received?.headers[contract.auth[0]], contract.auth[1]);
+    assert.deepEqual(received?.body, contract.expectedBody(true));
+  });
+
+  test(`${name}: surfaces the API's error message`, async () => {
+    recorded = { status: fixture.error.status, body: fixture.error.response };
+    const provider = contract.create(serverUrl);
+
+    const hasMessage = (error: Error) => error.message.includes(fixture.error.message);
+    await assert.rejects(provider.generate(request), hasMessage);
+    await assert.rejects(collect(provider.stream(request, new AbortController().signal)), hasMessage);
+  });
+}
+
+test("gemini: rejects a blocked prompt", async () => {
+  recorded = { status: 200, body: gemini.blocked!.response };
+
+  await assert.rejects(new GeminiProvider(API_KEY, `${serverUrl}/v1beta`).generate(request), {
+    message: gemini.blocked!.message,
+  });
+});
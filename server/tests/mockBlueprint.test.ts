@@ -0,0 +1,31 @@
+// Blueprint generation against the mock provider: the fixtures in server/ai/fixtures
+// have to give the same valid blueprint on every run, or CI and local development
+// would not be reproducible.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+
+// The provider is picked and the database module checks its URL when they are first
+// imported, so the environment is set before loading them. Nothing connects.
+process.env.AI_PROVIDER = "mock";
+process.env.AI_MOCK_FIXTURES = path.join(import.meta.dirname, "..", "ai", "fixtures");
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+const { db } = await import("../db");
+const { codeGenerator } = await import("../codeGenerator");
+const { loadBlueprintContext, validateBlueprint } = await import("../generation/blueprint");
+
+// Existing columns and enums are looked up in the database; start from an empty one
+(db as any).execute = async () => ({ rows: [] });
+
+test("mock provider: createBlueprint returns the same valid blueprint every time", async () => {
+  const request = "Track daily student attendance";
+  const first = await (codeGenerator as any).createBlueprint(request, null);
+  const second = await (codeGenerator as any).createBlueprint(request, null);
+
+  assert.deepEqual(second, first);
+
+  const result = validateBlueprint(first, await loadBlueprintContext());
+  assert.ok(result.success, result.success ? "" : result.errors.join("\n"));
+  assert.equal(first.moduleName, "AttendanceTracking");
+});
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { userRoles } from "./schema";
+
+// Module blueprint produced by the AI and consumed by the code generators
+
+// "user" is a reference to users.id; "enum" is backed by a Postgres enum type
+export const fieldTypes = [
+  "serial", "varchar", "text", "integer", "boolean", "timestamp",
+  "date", "numeric", "jsonb", "uuid", "enum", "user",
+] as const;
+export type FieldType = typeof fieldTypes[number];
+
+// Types that cannot be declared as arrays
+export const scalarOnlyFieldTypes: FieldType[] = ["serial", "jsonb", "user"];
+
+// Types whose values can be ordered by the cross-field rules' <, <=, > and >=
+const orderedFieldTypes: FieldType[] = ["varchar", "text", "integer", "timestamp", "date", "numeric"];
+
+const pascalCase = /^[A-Z][A-Za-z0-9]*$/;
+const camelCase = /^[a-z][A-Za-z0-9]*$/;
+const snakeCase = /^[a-z][a-z0-9_]*$/;
+
+// Checks added to the generated insert schema, which the server and the generated forms both run
+export const fieldValidationSchema = z.object({
+  // Value bounds for integer and numeric fields, length bounds for varchar and text, item counts for arrays
+  min: z.number().optional(),
+  max: z.number().optional(),
+  // Regular expression a varchar or text value has to match
+  pattern: z.string().optional(),
+  format: z.enum(["email", "phone", "url"]).optional(),
+  // Replaces the default error messages
+  message: z.string().optional(),
+});
+
+export const fieldDefinitionSchema = z.object({
+  name: z.string().regex(camelCase, "Field names must be camelCase identifiers"),
+  type: z.enum(fieldTypes),
+  required: z.boolean(),
+  unique: z.boolean().optional(),
+  default: z.string().optional(),
+  length: z.number().int().positive().max(10485760).optional(),
+  // numeric(precision, scale), e.g. fee amounts as numeric(10, 2)
+  precision: z.number().int().min(1).max(1000).optional(),
+  scale: z.number().int().min(0).max(1000).optional(),
+  enumValues: z.array(z.string().min(1).max(63)).min(1).optional(),
+  // Store a list of values, e.g. text[]
+  array: z.boolean().optional(),
+  validation: fieldValidationSchema.optional(),
+}).superRefine((field, ctx) => {
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+
+  if (field.length !== undefined && field.type !== "varchar") {
+    issue("length", "length only applies to varchar fields");
+  }
+  if ((field.precision !== undefined || field.scale !== undefined) && field.type !== "numeric") {
+    issue("precision", "precision and scale only apply to numeric fields");
+  }
+  if (field.scale !== undefined && (field.precision === undefined || field.scale > field.precision)) {
+    issue("scale", "scale needs a precision at least as large");
+  }
+  if (field.type === "enum" && !field.enumValues) {
+    issue("enumValues", "enum fields need enumValues");
+  }
+  if (field.type !== "enum" && field.enumValues) {
+    issue("enumValues", "enumValues only applies to enum fields");
+  }
+  if (field.enumValues && new Set(field.enumValues).size !== field.enumValues.length) {
+    issue("enumValues", "enum values must be unique");
+  }
+  if (field.array && scalarOnlyFieldTypes.includes(field.type)) {
+    issue("array", `${field.type} fields cannot be arrays`);
+  }
+
+  const validation = field.validation;
+  if (!validation) return;
+  const text = !field.array && (field.type === "varchar" || field.type === "text");
+  if ((validation.min !== undefined || validation.max !== undefined) && !field.array && !text && field.type !== "integer" && field.type !== "numeric") {
+    issue("validation", "min and max only apply to integer, numeric, varchar, text and array fields");
+  }
+  if (validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+    issue("validation", "min cannot be larger than max");
+  }
+  if ((validation.pattern !== undefined || validation.format !== undefined) && !text) {
+    issue("validation", "pattern and format only apply to varchar and text fields");
+  }
+  if (validation.pattern !== undefined) {
+    try {
+      new RegExp(validation.pattern);
+    } catch (error) {
+      issue("validation", "pattern is not a valid regular expression");
+    }
+  }
+});
+
+// Compares two fields of the same row, e.g. endDate > startDate
+export const crossFieldRuleSchema = z.object({
+  field: z.string(),
+  operator: z.enum(["<", "<=", ">", ">=", "=", "!="]),
+  otherField: z.string(),
+  message: z.string().optional(),
+});
+
+export const entityDefinitionSchema = z.object({
+  name: z.string().regex(pascalCase, "Entity names must be PascalCase identifiers"),
+  tableName: z.string()
+    .max(63, "Table names are limited to 63 characters")
+    .regex(snakeCase, "Table names must be lowercase snake_case"),
+  fields: z.array(fieldDefinitionSchema).min(1, "Entities need at least one field"),
+  rules: z.array(crossFieldRuleSchema).optional(),
+  // "user" field naming the user each row belongs to, for routes with ownRecordsOnly
+  ownerField: z.string().optional(),
+}).superRefine((entity, ctx) => {
+  if (entity.ownerField !== undefined) {
+    const owner = entity.fields.find(f => f.name === entity.ownerField);
+    if (!owner || owner.type !== "user" || owner.array) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ownerField"], message: "ownerField must name a user field of the entity" });
+    }
+  }
+
+  entity.rules?.forEach((rule, i) => {
+    const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["rules", i], message });
+    const field = entity.fields.find(f => f.name === rule.field);
+    const other = entity.fields.find(f => f.name === rule.otherField);
+
+    if (!field || !other) {
+      issue(`unknown field "${!field ? rule.field : rule.otherField}"`);
+    } else if (field.array || other.array || field.type !== other.type) {
+      issue(`${rule.field} and ${rule.otherField} must be non-array fields of the same type`);
+    } else if (!["=", "!="].includes(rule.operator) && !orderedFieldTypes.includes(field.type)) {
+      issue(`${field.type} fields can only be compared with = and !=`);
+    }
+  });
+});
+
+export const relationshipSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  type: z.enum(["one-to-many", "many-to-one", "many-to-many"]),
+  // Field on the "many" side that holds the reference; defaults to <target>Id
+  foreignKey: z.string().regex(camelCase, "Foreign keys must be camelCase identifiers").optional(),
+  // Name of the join table for many-to-many; defaults to <from>_<to>
+  joinTable: z.string()
+    .max(63, "Table names are limited to 63 characters")
+    .regex(snakeCase, "Table names must be lowercase snake_case")
+    .optional(),
+});
+
+export const routeDefinitionSchema = z.object({
+  method: z.enum(["GET", "POST", "PATCH", "DELETE"]),
+  path: z.string().regex(/^\/api\/[A-Za-z0-9_\-/:]+$/, "Route paths must start with /api/"),
+  description: z.string(),
+  requiresAuth: z.boolean(),
+  requiresSuperAdmin: z.boolean().optional(),
+  // Roles that may call the route, any role when omitted; super admins are always allowed
+  allowedRoles: z.array(z.enum(userRoles)).min(1).optional(),
+  // Roles limited to the rows whose ownerField is their own user
+  ownRecordsOnly: z.array(z.enum(userRoles)).min(1).optional(),
+  // Entity the route operates on; matched from the path when omitted
+  entity: z.string().optional(),
+}).superRefine((route, ctx) => {
+  for (const role of route.ownRecordsOnly ?? []) {
+    if (role === "super_admin") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ownRecordsOnly"], message: "super admins cannot be limited to their own records" });
+    } else if (route.allowedRoles && !route.allowedRoles.includes(role)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["ownRecordsOnly"], message: `${role} is not in allowedRoles` });
+    }
+  }
+});
+
+export const componentDefinitionSchema = z.object({
+  name: z.string().regex(pascalCase, "Component names must be PascalCase identifiers"),
+  type: z.enum(["page", "component"]),
+  path: z.string().optional(),
+  description: z.string(),
+  // Entity the component manages; matched from the name or path when omitted
+  entity: z.string().optional(),
+});
+
+export const moduleBlueprintSchema = z.object({
+  moduleName: z.string().regex(pascalCase, "Module names must be PascalCase identifiers"),
+  description: z.string(),
+  entities: z.array(entityDefinitionSchema).min(1, "Blueprints need at least one entity"),
+  relationships: z.array(relationshipSchema).default([]),
+  apiRoutes: z.array(routeDefinitionSchema).default([]),
+  uiComponents: z.array(componentDefinitionSchema).default([]),
+});
+
+export type ModuleBlueprint = z.infer<typeof moduleBlueprintSchema>;
+export type EntityDefinition = z.infer<typeof entityDefinitionSchema>;
+export type FieldDefinition = z.infer<typeof fieldDefinitionSchema>;
+export type FieldValidation = z.infer<typeof fieldValidationSchema>;
+export type CrossFieldRule = z.infer<typeof crossFieldRuleSchema>;
+export type Relationship = z.infer<typeof relationshipSchema>;
+export type RouteDefinition = z.infer<typeof routeDefinitionSchema>;
+export type ComponentDefinition = z.infer<typeof componentDefinitionSchema>;
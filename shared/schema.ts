@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, index, boolean, serial, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, index, boolean, serial, integer, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -27,11 +27,12 @@ export const schools = pgTable("schools", {
   primaryColor: varchar("primary_color", { length: 7 }).default("#3b82f6"),
   
   // School settings
-  settings: jsonb("settings").default({}), // Store school-specific config
+  settings: jsonb("settings").default({}), // Store school-specific config, e.g. allowPlatformAi to use the platform AI key
   
   // AI Configuration (per-school API keys for AI modules)
   aiProvider: varchar("ai_provider", { length: 50 }), // 'anthropic', 'openai', 'gemini', null
   aiApiKey: text("ai_api_key"), // Encrypted API key for school's AI features
+  aiApiKeyVersion: integer("ai_api_key_version"), // Master key version aiApiKey is encrypted with; null = legacy plain text
   
   // Subscription/billing (for SaaS)
   subscriptionTier: varchar("subscription_tier", { length: 50 }).default("free"),
@@ -55,6 +56,9 @@ export const schoolsRelations = relations(schools, ({ many }) => ({
 
 export const insertSchoolSchema = createInsertSchema(schools).omit({
   id: true,
+  // Only written encrypted, through updateSchoolAiConfig
+  aiApiKey: true,
+  aiApiKeyVersion: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -188,7 +192,7 @@ export type InsertModule = z.infer<typeof insertModuleSchema>;
 export type Module = typeof modules.$inferSelect;
 
 // Generation job status enum
-export const jobStatuses = ["pending", "generating", "review", "approved", "deploying", "deployed", "failed", "rejected"] as const;
+export const jobStatuses = ["pending", "generating", "review", "approved", "deploying", "deployed", "failed", "rejected", "rolled_back", "validation_failed", "uninstalled"] as const;
 export type JobStatus = typeof jobStatuses[number];
 
 // Module Generation Jobs table (tracks AI code generation requests)
@@ -203,10 +207,24 @@ export const moduleGenerationJobs = pgTable("module_generation_jobs", {
   requestDescription: text("request_description").notNull(), // Natural language request
   moduleBlueprint: jsonb("module_blueprint"), // Parsed blueprint (entities, fields, relationships)
   
+  // Revisions (a refinement is a new job that reworks another job's blueprint)
+  originalJobId: integer("original_job_id").references((): AnyPgColumn => moduleGenerationJobs.id, { onDelete: "cascade" }), // null on the first revision
+  parentJobId: integer("parent_job_id").references((): AnyPgColumn => moduleGenerationJobs.id, { onDelete: "set null" }), // Job whose blueprint was refined
+  revision: integer("revision").notNull().default(1),
+  refinement: text("refinement"), // Follow-up instruction that produced this revision
+  importedBundle: jsonb("imported_bundle"), // Module bundle this job was imported from; its files are used instead of generating them
+  
   // Status tracking
   status: varchar("status", { length: 20 }).notNull().default("pending"),
   errorMessage: text("error_message"),
   
+  // Queue bookkeeping (a worker holds the lock while the job is generating)
+  attempts: integer("attempts").notNull().default(0),
+  lockedBy: varchar("locked_by"),
+  lockedAt: timestamp("locked_at"), // Refreshed while the worker is alive; stale locks are reclaimed
+  runAfter: timestamp("run_after").defaultNow().notNull(), // Delays retries
+  nextStep: varchar("next_step", { length: 20 }), // Step to run when the job is next claimed; null starts with the blueprint
+  
   // Timestamps
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -217,6 +235,7 @@ export const moduleGenerationJobs = pgTable("module_generation_jobs", {
   index("idx_generation_jobs_school").on(table.schoolId),
   index("idx_generation_jobs_status").on(table.status),
   index("idx_generation_jobs_user").on(table.userId),
+  index("idx_generation_jobs_original").on(table.originalJobId),
 ]);
 
 export const moduleGenerationJobsRelations = relations(moduleGenerationJobs, ({ one, many }) => ({
@@ -234,6 +253,7 @@ export const moduleGenerationJobsRelations = relations(moduleGenerationJobs, ({
   }),
   artifacts: many(generationArtifacts),
   deployments: many(deploymentHistory),
+  events: many(generationJobEvents),
 }));
 
 export const insertModuleGenerationJobSchema = createInsertSchema(moduleGenerationJobs).omit({
@@ -247,6 +267,41 @@ export const insertModuleGenerationJobSchema = createInsertSchema(moduleGenerati
 export type InsertModuleGenerationJob = z.infer<typeof insertModuleGenerationJobSchema>;
 export type ModuleGenerationJob = typeof moduleGenerationJobs.$inferSelect;
 
+// Steps a generation job reports progress for, in the order they run
+export const generationSteps = ["blueprint", "schema", "migration", "storage", "routes", "frontend", "tests", "diff", "typecheck"] as const;
+export type GenerationStep = typeof generationSteps[number];
+
+// Generation Job Events table (progress log streamed to the Generate tab)
+export const generationJobEvents = pgTable("generation_job_events", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => moduleGenerationJobs.id, { onDelete: "cascade" }),
+  step: varchar("step", { length: 20 }), // null for job-level events such as retries
+  status: varchar("status", { length: 20 }).notNull(), // started, completed, failed, retrying, resumed
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_generation_job_events_job").on(table.jobId),
+]);
+
+export const generationJobEventsRelations = relations(generationJobEvents, ({ one }) => ({
+  job: one(moduleGenerationJobs, {
+    fields: [generationJobEvents.jobId],
+    references: [moduleGenerationJobs.id],
+  }),
+}));
+
+export const insertGenerationJobEventSchema = createInsertSchema(generationJobEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertGenerationJobEvent = z.infer<typeof insertGenerationJobEventSchema>;
+export type GenerationJobEvent = typeof generationJobEvents.$inferSelect;
+
+// Per-file review decision; every file must be accepted before a job can be approved
+export const artifactReviewStatuses = ["pending", "accepted", "rejected"] as const;
+export type ArtifactReviewStatus = typeof artifactReviewStatuses[number];
+
 // Generation Artifacts table (stores generated code files)
 export const generationArtifacts = pgTable("generation_artifacts", {
   id: serial("id").primaryKey(),
@@ -254,9 +309,11 @@ export const generationArtifacts = pgTable("generation_artifacts", {
   
   // File details
   filePath: text("file_path").notNull(), // e.g., "shared/schema.ts", "server/routes.ts"
-  fileType: varchar("file_type", { length: 50 }).notNull(), // schema, route, component, type
+  fileType: varchar("file_type", { length: 50 }).notNull(), // schema, migration, storage, route, component, test
   generatedCode: text("generated_code").notNull(), // The actual code
   diffPreview: text("diff_preview"), // Diff showing changes
+  diagnostics: jsonb("diagnostics"), // TypeScript errors introduced by this file, null until validated
+  reviewStatus: varchar("review_status", { length: 20 }).notNull().default("pending"), // pending, accepted, rejected
   
   // Status
   isApplied: boolean("is_applied").default(false),
@@ -282,6 +339,10 @@ export type InsertGenerationArtifact = z.infer<typeof insertGenerationArtifactSc
 export type GenerationArtifact = typeof generationArtifacts.$inferSelect;
 
 // Deployment History table (tracks all deployments)
+// What uninstalling a module does with its tables: drop them, or rename them to keep the data
+export const moduleTableActions = ["drop", "archive"] as const;
+export type ModuleTableAction = typeof moduleTableActions[number];
+
 export const deploymentHistory = pgTable("deployment_history", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull().references(() => moduleGenerationJobs.id, { onDelete: "cascade" }),
@@ -293,7 +354,7 @@ export const deploymentHistory = pgTable("deployment_history", {
   migrationsSql: text("migrations_sql"), // SQL migrations that were run
   
   // Status
-  status: varchar("status", { length: 20 }).notNull().default("success"), // success, failed, rolled_back
+  status: varchar("status", { length: 20 }).notNull().default("success"), // success, failed, rolled_back, uninstalled
   errorMessage: text("error_message"),
   
   // Timestamps